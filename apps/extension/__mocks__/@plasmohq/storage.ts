@@ -0,0 +1,31 @@
+// Keeps storage in memory for tests. Like chrome.storage, every Storage in an
+// area shares its items, and values are copied in and out.
+const areas = new Map<string, Map<string, unknown>>()
+
+export class Storage {
+  private items: Map<string, unknown>
+  private namespace = ""
+
+  constructor({ area = "sync" }: { area?: string } = {}) {
+    this.items = areas.get(area) ?? new Map()
+    areas.set(area, this.items)
+  }
+
+  setNamespace(namespace: string) {
+    this.namespace = namespace
+  }
+
+  async get<T = string>(key: string): Promise<T | undefined> {
+    const value = this.items.get(this.namespace + key)
+    return value === undefined ? undefined : structuredClone(value as T)
+  }
+
+  async set(key: string, value: unknown) {
+    this.items.set(this.namespace + key, structuredClone(value))
+    return null
+  }
+
+  async remove(key: string) {
+    this.items.delete(this.namespace + key)
+  }
+}
@@ -0,0 +1,4 @@
+// Views aren't rendered in tests
+export function useStorage() {
+  return [undefined, () => undefined]
+}
@@ -0,0 +1,16 @@
+/** @type {import("ts-jest").JestConfigWithTsJest} */
+module.exports = {
+  testEnvironment: "node",
+  moduleNameMapper: {
+    "^~(.*)$": "<rootDir>/src/$1",
+    // The workspace package only has its sources until it's built
+    "^window\\.ai$": "<rootDir>/../../packages/lib/src/index.ts"
+  },
+  transform: {
+    // Tests run as CommonJS, which verbatimModuleSyntax doesn't allow
+    "^.+\\.tsx?$": [
+      "ts-jest",
+      { tsconfig: { verbatimModuleSyntax: false }, isolatedModules: true }
+    ]
+  }
+}
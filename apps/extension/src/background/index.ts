@@ -1,5 +1,13 @@
+import { eventBus } from "~background/lib/event-bus"
+import { Extension } from "~core/extension"
 import { log } from "~core/utils/utils"
 
 export {}
 
+// Pages only get events while they're open
+Extension.addTabNavigationListener((tabId, url) =>
+  eventBus.pruneTab(tabId, url)
+)
+Extension.addTabRemovedListener((tabId) => eventBus.removeTab(tabId))
+
 log("Background script loaded")
@@ -1,25 +1,102 @@
-import type { EventType } from "window.ai"
+import type { EventType, RequestID } from "window.ai"
 
 import { Extension } from "~core/extension"
-import { tabManager } from "~core/managers/tab"
+import { type TabListener, tabManager } from "~core/managers/tab"
+import { KeyedLock } from "~core/utils/lock"
 import { ok } from "~core/utils/result-monad"
 import { log } from "~core/utils/utils"
 
 const MAX_TABS_TO_NOTIFY = 100
 
 export class EventBus {
-  async addListener(tabId: number) {
-    const tab = tabManager.init(tabId)
-    await tabManager.save(tab)
+  private lock = new KeyedLock()
+
+  async addListener(
+    tabId: number,
+    listenerId: RequestID,
+    listener: TabListener
+  ) {
+    await this.lock.run(tabId.toString(), async () => {
+      const tab = await tabManager.getOrInit(tabId.toString(), tabId)
+      tab.listeners[listenerId] = listener
+      await tabManager.save(tab)
+    })
+  }
+
+  async removeListener(tabId: number, listenerId: RequestID) {
+    await this._removeListeners(tabId, (id) => id === listenerId)
+  }
+
+  // The frame's page unloaded or disconnected
+  async removeFrame(tabId: number, frameId: number) {
+    await this._removeListeners(tabId, (_, l) => l.frameId === frameId)
+  }
+
+  async removeTab(tabId: number) {
+    await this._removeListeners(tabId, () => true)
+  }
+
+  // Drops the listeners of the tab's previous page once it navigates away.
+  // Subframes are dropped when they disconnect.
+  async pruneTab(tabId: number, url: string) {
+    const origin = new URL(url).origin
+    await this._removeListeners(
+      tabId,
+      (_, l) => l.frameId === 0 && l.origin !== origin
+    )
   }
 
-  async dispatch(eventType: EventType, data: unknown) {
-    const tabs = await tabManager.getIds(MAX_TABS_TO_NOTIFY)
-    tabs.forEach((tabId) => {
-      log("Dispatching event", eventType, data, tabId)
-      Extension.sendToTab(parseInt(tabId), {
-        response: ok({ event: eventType, data })
+  // If origin is set, only pages on that origin get the event. Pages on the
+  // skipped origins never get it.
+  async dispatch(
+    eventType: EventType,
+    data: unknown,
+    origin?: string,
+    skipOrigins: string[] = []
+  ) {
+    const tabIds = await tabManager.getIds(MAX_TABS_TO_NOTIFY)
+    const tabs = await Promise.all(tabIds.map((id) => tabManager.get(id)))
+    tabs.forEach((tab) => {
+      if (!tab) {
+        return
+      }
+      const frameIds = new Set(
+        Object.values(tab.listeners)
+          .filter((l) => l.event === null || l.event === eventType)
+          .filter((l) => origin === undefined || l.origin === origin)
+          .filter((l) => !skipOrigins.includes(l.origin))
+          .map((l) => l.frameId)
+      )
+      frameIds.forEach((frameId) => {
+        log("Dispatching event", eventType, data, tab.id, frameId)
+        Extension.sendToTab(
+          parseInt(tab.id),
+          { response: ok({ event: eventType, data, origin }) },
+          frameId
+        )
       })
     })
   }
+
+  private async _removeListeners(
+    tabId: number,
+    shouldRemove: (id: RequestID, listener: TabListener) => boolean
+  ) {
+    await this.lock.run(tabId.toString(), async () => {
+      const tab = await tabManager.get(tabId.toString())
+      if (!tab) {
+        return
+      }
+      const ids = Object.keys(tab.listeners).filter((id) =>
+        shouldRemove(id, tab.listeners[id]!)
+      )
+      if (!ids.length) {
+        return
+      }
+      ids.forEach((id) => delete tab.listeners[id])
+      await tabManager.save(tab)
+    })
+  }
 }
+
+export const eventBus = new EventBus()
@@ -1,4 +1,4 @@
-import { ErrorCode, type RequestID } from "window.ai"
+import { ErrorCode, type RequestID, type WindowAIErrorData } from "window.ai"
 
 import {
   POPUP_HEIGHT,
@@ -6,6 +6,7 @@ import {
   RequestInterruptType
 } from "~core/constants"
 import { Extension } from "~core/extension"
+import { type OriginData, originManager } from "~core/managers/origin"
 import type { Err } from "~core/utils/result-monad"
 
 async function _requestInterrupt(
@@ -20,11 +21,27 @@ async function _requestInterrupt(
 
 export async function promptInterrupts(
   id: RequestID,
-  result: Err<ErrorCode | string>
+  result: Err<WindowAIErrorData>
 ) {
-  if (result.error === ErrorCode.NotAuthenticated) {
+  if (result.error.code === ErrorCode.NotAuthenticated) {
     return _requestInterrupt(id, RequestInterruptType.Authentication)
-  } else if (result.error === ErrorCode.PaymentRequired) {
+  } else if (result.error.code === ErrorCode.PaymentRequired) {
     return _requestInterrupt(id, RequestInterruptType.Payment)
   }
 }
+
+// The page that opened the port. Unlike the origin sent with a request, the
+// page can't change it.
+export function getSenderOrigin(
+  sender?: chrome.runtime.MessageSender
+): OriginData | undefined {
+  if (!sender?.url) {
+    return undefined
+  }
+  const url = new URL(sender.url)
+  return originManager.getData(
+    url.origin,
+    url.pathname,
+    sender.tab?.title ?? ""
+  )
+}
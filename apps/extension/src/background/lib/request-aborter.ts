@@ -0,0 +1,31 @@
+import type { RequestID } from "window.ai"
+
+// Tracks in-flight requests so that they can be cancelled by the page
+export class RequestAborter {
+  private controllers: Map<RequestID, AbortController>
+
+  constructor() {
+    this.controllers = new Map()
+  }
+
+  start(id: RequestID): AbortSignal {
+    const controller = new AbortController()
+    this.controllers.set(id, controller)
+    return controller.signal
+  }
+
+  // Returns true if the request was still in flight
+  abort(id: RequestID): boolean {
+    const controller = this.controllers.get(id)
+    if (!controller) {
+      return false
+    }
+    controller.abort()
+    this.controllers.delete(id)
+    return true
+  }
+
+  finish(id: RequestID): void {
+    this.controllers.delete(id)
+  }
+}
@@ -0,0 +1,106 @@
+import { EventType } from "window.ai"
+
+import { eventBus } from "./event-bus"
+import { RequestScheduler } from "./request-scheduler"
+
+jest.mock("~core/managers/queue", () => ({
+  queueManager: {
+    getLimits: async () => ({ perOrigin: 10, perProvider: 1 }),
+    saveSnapshot: async () => undefined
+  }
+}))
+jest.mock("./event-bus", () => ({ eventBus: { dispatch: jest.fn() } }))
+
+// Lets the scheduler load its limits and start what it can
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe("RequestScheduler", () => {
+  let scheduler: RequestScheduler
+  let started: string[]
+
+  function schedule(id: string, origin: string, priority = 0) {
+    const controller = new AbortController()
+    scheduler
+      .schedule({ id, origin, provider: "openai", priority }, controller.signal)
+      .then((isStarted) => isStarted && started.push(id))
+    return controller
+  }
+
+  beforeEach(() => {
+    scheduler = new RequestScheduler()
+    started = []
+    jest.mocked(eventBus.dispatch).mockClear()
+  })
+
+  it("starts the next request when one finishes", async () => {
+    schedule("a1", "https://a.com")
+    schedule("a2", "https://a.com")
+    await flush()
+    expect(started).toEqual(["a1"])
+
+    scheduler.finish("a1")
+    await flush()
+    expect(started).toEqual(["a1", "a2"])
+  })
+
+  it("lets origins take turns", async () => {
+    schedule("a1", "https://a.com")
+    schedule("a2", "https://a.com")
+    schedule("a3", "https://a.com")
+    schedule("b1", "https://b.com")
+    await flush()
+
+    for (const id of ["a1", "b1", "a2"]) {
+      scheduler.finish(id)
+      await flush()
+    }
+    expect(started).toEqual(["a1", "b1", "a2", "a3"])
+  })
+
+  it("only orders requests by priority within their origin", async () => {
+    schedule("a1", "https://a.com")
+    schedule("a2", "https://a.com")
+    schedule("b1", "https://b.com")
+    schedule("a3", "https://a.com", 5)
+    await flush()
+
+    for (const id of ["a1", "b1", "a3"]) {
+      scheduler.finish(id)
+      await flush()
+    }
+    expect(started).toEqual(["a1", "b1", "a3", "a2"])
+  })
+
+  it("reports each request's position among its origin's requests", async () => {
+    schedule("a1", "https://a.com")
+    schedule("a2", "https://a.com")
+    schedule("a3", "https://a.com")
+    schedule("b1", "https://b.com")
+    await flush()
+
+    const positions = Object.fromEntries(
+      jest
+        .mocked(eventBus.dispatch)
+        .mock.calls.filter(
+          ([event]) => event === EventType.RequestQueuePositionChanged
+        )
+        .map(([, data]) => {
+          const { id, position } = data as { id: string; position: number }
+          return [id, position]
+        })
+    )
+    expect(positions).toEqual({ a2: 0, a3: 1, b1: 0 })
+  })
+
+  it("doesn't start a request that was aborted while waiting", async () => {
+    schedule("a1", "https://a.com")
+    const controller = schedule("a2", "https://a.com")
+    schedule("a3", "https://a.com")
+    await flush()
+
+    controller.abort()
+    scheduler.finish("a1")
+    await flush()
+    expect(started).toEqual(["a1", "a3"])
+  })
+})
@@ -0,0 +1,162 @@
+import { EventType, type RequestID } from "window.ai"
+
+import {
+  type QueueEntry,
+  type QueueLimits,
+  queueManager
+} from "~core/managers/queue"
+
+import { eventBus } from "./event-bus"
+
+type Waiting = QueueEntry & {
+  seq: number
+  start: (isStarted: boolean) => void
+}
+
+// Holds requests until there's room for them under the per-origin and
+// per-provider limits, so that a busy page doesn't get rate limited
+export class RequestScheduler {
+  private waiting: Waiting[]
+  private running: Map<RequestID, QueueEntry>
+  private limits?: QueueLimits
+  private seq: number
+  // When each origin last had a request started, to take turns fairly
+  private turns: Map<string, number>
+  private turn: number
+
+  constructor() {
+    this.waiting = []
+    this.running = new Map()
+    this.seq = 0
+    this.turns = new Map()
+    this.turn = 0
+    // Requests don't survive a restart of the background script
+    this._save()
+  }
+
+  // Resolves to true once the request can be sent, or false if it was
+  // aborted while waiting
+  async schedule(
+    entry: Omit<QueueEntry, "queuedAt" | "position">,
+    signal: AbortSignal
+  ): Promise<boolean> {
+    // Numbered before awaiting, so that requests keep their order
+    const seq = this.seq++
+    this.limits = await queueManager.getLimits()
+    if (signal.aborted) {
+      return false
+    }
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((w) => w.id !== entry.id)
+        resolve(false)
+        this._pump()
+      }
+      signal.addEventListener("abort", onAbort, { once: true })
+      this.waiting.push({
+        ...entry,
+        queuedAt: Date.now(),
+        seq,
+        start: (isStarted) => {
+          signal.removeEventListener("abort", onAbort)
+          resolve(isStarted)
+        }
+      })
+      this._pump()
+    })
+  }
+
+  finish(id: RequestID): void {
+    if (this.running.delete(id)) {
+      this._pump()
+    }
+  }
+
+  private _pump() {
+    const limits = this.limits
+    if (!limits) {
+      return
+    }
+    // Higher priority first, then first come first served. Priority only
+    // orders an origin's own requests, since origins take turns.
+    this.waiting.sort((a, b) => b.priority - a.priority || a.seq - b.seq)
+
+    let hasStarted = true
+    while (hasStarted) {
+      hasStarted = false
+      for (const origin of this._originsByTurn()) {
+        const entry = this.waiting.find(
+          (w) => w.origin === origin && this._fits(w, limits)
+        )
+        if (entry) {
+          this._start(entry)
+          hasStarted = true
+        }
+      }
+    }
+
+    // Pages only learn where they are among their origin's requests
+    const positions = new Map<string, number>()
+    this.waiting.forEach((entry) => {
+      const position = positions.get(entry.origin) ?? 0
+      positions.set(entry.origin, position + 1)
+      if (entry.position !== position) {
+        entry.position = position
+        eventBus.dispatch(
+          EventType.RequestQueuePositionChanged,
+          { id: entry.id, position },
+          entry.origin
+        )
+      }
+    })
+    this._pruneTurns()
+    this._save()
+  }
+
+  private _fits(entry: Waiting, limits: QueueLimits): boolean {
+    const running = [...this.running.values()]
+    const byOrigin = running.filter((r) => r.origin === entry.origin)
+    const byProvider = running.filter((r) => r.provider === entry.provider)
+    return (
+      byOrigin.length < limits.perOrigin &&
+      byProvider.length < limits.perProvider
+    )
+  }
+
+  private _start(entry: Waiting) {
+    this.waiting = this.waiting.filter((w) => w.id !== entry.id)
+    const { seq, start, position, ...queued } = entry
+    this.running.set(entry.id, queued)
+    this.turns.set(entry.origin, this.turn++)
+    start(true)
+  }
+
+  // Waiting origins, the one whose last request started longest ago first.
+  // Ties go to the origin that has waited longest.
+  private _originsByTurn(): string[] {
+    const bySeq = [...this.waiting].sort((a, b) => a.seq - b.seq)
+    const origins = [...new Set(bySeq.map((w) => w.origin))]
+    return origins.sort(
+      (a, b) => (this.turns.get(a) ?? -1) - (this.turns.get(b) ?? -1)
+    )
+  }
+
+  // Forgets the turns of origins with nothing waiting or running
+  private _pruneTurns() {
+    const active = new Set(
+      [...this.waiting, ...this.running.values()].map((e) => e.origin)
+    )
+    for (const origin of this.turns.keys()) {
+      if (!active.has(origin)) {
+        this.turns.delete(origin)
+      }
+    }
+  }
+
+  private _save() {
+    queueManager.saveSnapshot({
+      running: [...this.running.values()],
+      waiting: this.waiting.map(({ seq, start, ...entry }) => entry)
+    })
+  }
+}
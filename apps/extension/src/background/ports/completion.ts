@@ -1,27 +1,57 @@
 import {
   ErrorCode,
+  EventType,
   type InferredOutput,
   type Input,
+  type ParsedToolCall,
+  type RequestID,
+  type ToolCall,
+  type WindowAIErrorData,
   isMessagesInput
 } from "window.ai"
 
 import type { PlasmoMessaging } from "@plasmohq/messaging"
 
-import { promptInterrupts } from "~background/lib/helpers"
-import { type PortRequest, type PortResponse } from "~core/constants"
+import { eventBus } from "~background/lib/event-bus"
+import { getSenderOrigin, promptInterrupts } from "~background/lib/helpers"
+import { RequestAborter } from "~background/lib/request-aborter"
+import { RequestScheduler } from "~background/lib/request-scheduler"
+import {
+  type PortRequest,
+  type PortResponse,
+  isCancelRequest
+} from "~core/constants"
 import { PortName } from "~core/constants"
 import { Extension } from "~core/extension"
+import {
+  type ModelOutput,
+  mergeModelOutputs,
+  toolCallsFromDeltas
+} from "~core/llm/model"
 import { type Config, configManager } from "~core/managers/config"
+import { PermissionScope } from "~core/managers/grant"
+import type { OriginData } from "~core/managers/origin"
 import {
   type Transaction,
   transactionManager
 } from "~core/managers/transaction"
+import { type UsageReservation, usageManager } from "~core/managers/usage"
 import * as modelRouter from "~core/model-router"
-import { type Result, err, isErr, isOk, ok } from "~core/utils/result-monad"
+import {
+  type Result,
+  codeErr,
+  err,
+  isErr,
+  isOk,
+  ok
+} from "~core/utils/result-monad"
 import { log } from "~core/utils/utils"
 
 import { requestPermission } from "./permission"
 
+const aborter = new RequestAborter()
+const scheduler = new RequestScheduler()
+
 const handler: PlasmoMessaging.PortHandler<
   PortRequest[PortName.Completion],
   PortResponse[PortName.Completion]
@@ -32,79 +62,204 @@ const handler: PlasmoMessaging.PortHandler<
     return res.send(err(ErrorCode.InvalidRequest))
   }
 
-  const { id, request } = req.body
-
-  const permit = await requestPermission(request, id)
-  if (isErr(permit)) {
-    return res.send({ response: permit, id })
+  if (isCancelRequest(req.body)) {
+    aborter.abort(req.body.id)
+    // The page already rejected the request, so no response needed
+    return
   }
 
+  const { id, request } = req.body
+  // Pages can put any origin in a request, so use the one the browser reports
+  const origin = getSenderOrigin(req.port?.sender)
+  if (!origin) {
+    return res.send({ response: codeErr(ErrorCode.InvalidRequest), id })
+  }
   const txn = request.transaction
-  const config = await configManager.forModelWithDefault(txn.model)
+  txn.origin = origin
+  const signal = aborter.start(id)
+  // Held against the domain's limits until the actual usage is recorded
+  let reservation: UsageReservation | undefined
+  try {
+    _dispatchLifecycle(EventType.RequestQueued, origin, id)
 
-  const shouldStream = await modelRouter.shouldStream(config, request)
-  const predictedModel = await _getCompletionModel(config, txn, shouldStream)
-  if (!isOk(predictedModel)) {
-    promptInterrupts(id, predictedModel)
-    return res.send({ response: predictedModel, id })
-  }
-  txn.routedModel = predictedModel.data
+    const permit = await requestPermission(
+      request,
+      origin,
+      id,
+      PermissionScope.Text
+    )
+    if (isErr(permit)) {
+      _dispatchLifecycle(
+        EventType.RequestFinished,
+        origin,
+        id,
+        permit.error.code
+      )
+      return res.send({ response: permit, id })
+    }
+
+    const { domain } = origin
+    const quota = await usageManager.checkLimits(domain, txn)
+    if (isErr(quota)) {
+      _dispatchLifecycle(
+        EventType.RequestFinished,
+        origin,
+        id,
+        quota.error.code
+      )
+      return res.send({ response: quota, id })
+    }
+    reservation = quota.data
+
+    const config = await configManager.forModelWithDefault(txn.model, origin)
+    const caller = await configManager.getModelCaller(config)
+    const isScheduled = await scheduler.schedule(
+      {
+        id,
+        origin: origin.domain,
+        provider: caller.config.identifier,
+        priority: txn.priority ?? 0
+      },
+      signal
+    )
+    if (!isScheduled) {
+      // Cancelled while queued, and the page already rejected the request
+      _dispatchLifecycle(
+        EventType.RequestFinished,
+        origin,
+        id,
+        ErrorCode.Cancelled
+      )
+      return
+    }
+
+    const shouldStream = await modelRouter.shouldStream(config, request)
+    const predictedModel = await _getCompletionModel(config, txn, shouldStream)
+    if (!isOk(predictedModel)) {
+      promptInterrupts(id, predictedModel)
+      _dispatchLifecycle(
+        EventType.RequestFinished,
+        origin,
+        id,
+        predictedModel.error.code
+      )
+      return res.send({ response: predictedModel, id })
+    }
+    txn.routedModel = predictedModel.data
+    const droppedOptions = await modelRouter.getDroppedOptions(config, txn)
+    txn.droppedOptions = droppedOptions.length ? droppedOptions : undefined
 
-  await transactionManager.save(txn)
+    await transactionManager.save(txn)
+    _dispatchLifecycle(EventType.RequestStarted, origin, id)
 
-  if (shouldStream) {
-    const replies: string[] = []
-    const errors: string[] = []
+    let error: ErrorCode | undefined
+    if (shouldStream) {
+      // The streamed deltas of each output, by index
+      const replies: ModelOutput[][] = []
+      const errors: WindowAIErrorData[] = []
+      const prefill = modelRouter.getPrefill(caller, txn)
 
-    const results = await modelRouter.stream(config, txn)
+      const results = await modelRouter.stream(config, txn, signal)
 
-    for await (const result of results) {
-      if (isOk(result)) {
-        const outputs = [_getOutput(txn.input, result.data, true)]
+      for await (const result of results) {
+        if (signal.aborted) {
+          break
+        }
+        if (isOk(result)) {
+          const index = result.data.index ?? 0
+          // Each output's first delta starts with the continued message, so
+          // the deltas add up to the final output
+          const delta =
+            prefill && !replies[index]
+              ? { ...result.data, text: prefill + result.data.text }
+              : result.data
+          res.send({ response: ok([_getOutput(txn.input, delta, true)]), id })
+          replies[index] = [...(replies[index] ?? []), result.data]
+        } else {
+          res.send({ response: result, id })
+          errors.push(result.error)
+          promptInterrupts(id, result)
+        }
+      }
+
+      // Collect the replies and errors onto the txn
+      txn.outputs = replies.length
+        ? replies.flatMap((deltas) => [
+            _getOutput(
+              txn.input,
+              modelRouter.withPrefill(caller, txn, mergeModelOutputs(deltas))
+            )
+          ])
+        : undefined
+      txn.error = signal.aborted
+        ? ErrorCode.Cancelled
+        : errors.map((e) => e.message).join("") || undefined
+      error = errors[0]?.code
+
+      // Send the final output to the client, as non-partial. Always send it,
+      // even if empty, so that the client knows the stream has ended
+      if (!errors.length && !signal.aborted) {
+        res.send({ response: ok(txn.outputs ?? []), id })
+      }
+    } else {
+      // TODO remove this code and make everything use modelRouter.stream
+      // WIP PR: https://github.com/alexanderatallah/window.ai/pull/50
+      const result = txn.responseFormat
+        ? await modelRouter.completeJSON(config, txn, signal)
+        : await modelRouter.complete(config, txn, signal)
+
+      if (signal.aborted) {
+        txn.error = ErrorCode.Cancelled
+      } else if (isOk(result)) {
+        const outputs = result.data.map((d) => _getOutput(txn.input, d))
         res.send({ response: ok(outputs), id })
-        replies.push(result.data)
+        txn.outputs = outputs
       } else {
         res.send({ response: result, id })
-        errors.push(result.error)
+        txn.error = result.error.message
+        error = result.error.code
         promptInterrupts(id, result)
       }
     }
 
-    // Collect the replies and errors onto the txn
-    txn.outputs = replies.length
-      ? [_getOutput(txn.input, replies.join(""))]
-      : undefined
-    txn.error = errors.join("") || undefined
+    _dispatchLifecycle(
+      EventType.RequestFinished,
+      origin,
+      id,
+      signal.aborted ? ErrorCode.Cancelled : error
+    )
 
-    // Send the final output to the client, as non-partial
-    if (txn.outputs) {
-      res.send({ response: ok(txn.outputs), id })
-    }
-  } else {
-    // TODO remove this code and make everything use modelRouter.stream
-    // WIP PR: https://github.com/alexanderatallah/window.ai/pull/50
-    const result = await modelRouter.complete(config, txn)
-
-    if (isOk(result)) {
-      const outputs = result.data.map((d) => _getOutput(txn.input, d))
-      res.send({ response: ok(outputs), id })
-      txn.outputs = outputs
-    } else {
-      res.send({ response: result, id })
-      txn.error = result.error
-      promptInterrupts(id, result)
+    // Update the completion with the reply and model used
+    await transactionManager.save(txn)
+    await usageManager.record(domain, txn, reservation)
+    reservation = undefined
+  } finally {
+    aborter.finish(id)
+    scheduler.finish(id)
+    if (reservation) {
+      await usageManager.release(origin.domain, reservation)
     }
   }
+}
 
-  // Update the completion with the reply and model used
-  await transactionManager.save(txn)
+// Lets pages on the sender's origin follow the request's progress
+function _dispatchLifecycle(
+  event:
+    | EventType.RequestQueued
+    | EventType.RequestStarted
+    | EventType.RequestFinished,
+  origin: OriginData,
+  id: RequestID,
+  error?: ErrorCode
+) {
+  eventBus.dispatch(event, { id, error }, origin.domain)
 }
 
 async function _getCompletionModel(
   config: Config,
-  txn: Transaction,
+  txn: Transaction<Input>,
   shouldStream: boolean
-): Promise<Result<string, string>> {
+): Promise<Result<string, WindowAIErrorData>> {
   if (txn.model) {
     return ok(txn.model)
   }
@@ -113,11 +268,40 @@ async function _getCompletionModel(
 
 function _getOutput(
   input: Input,
-  result: string,
+  result: ModelOutput,
   isPartial?: boolean
 ): InferredOutput<typeof input> {
-  return isMessagesInput(input)
-    ? { message: { role: "assistant", content: result }, isPartial }
-    : { text: result, isPartial }
+  // Only the final output has the finish reason and usage for the request
+  const finishReason = isPartial ? undefined : result.finishReason
+  const usage = isPartial ? undefined : result.usage
+  const { parsed, index } = result
+  if (!isMessagesInput(input)) {
+    return { text: result.text, parsed, index, finishReason, usage, isPartial }
+  }
+  const message = { role: "assistant" as const, content: result.text }
+  // Tool call deltas are only useful once they are complete
+  if (isPartial || !result.toolCalls) {
+    return { message, parsed, index, finishReason, usage, isPartial }
+  }
+  const toolCalls = toolCallsFromDeltas(result.toolCalls)
+  return {
+    message: { ...message, tool_calls: toolCalls },
+    toolCalls: toolCalls.map(_parseToolCall),
+    parsed,
+    index,
+    finishReason,
+    usage,
+    isPartial
+  }
+}
+
+function _parseToolCall(call: ToolCall): ParsedToolCall {
+  let args: ParsedToolCall["arguments"]
+  try {
+    args = JSON.parse(call.function.arguments)
+  } catch {
+    args = call.function.arguments
+  }
+  return { id: call.id, name: call.function.name, arguments: args }
 }
 export default handler
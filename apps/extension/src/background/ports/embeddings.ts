@@ -0,0 +1,133 @@
+import { ErrorCode } from "window.ai"
+
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+
+import { getSenderOrigin, promptInterrupts } from "~background/lib/helpers"
+import { RequestAborter } from "~background/lib/request-aborter"
+import {
+  type PortRequest,
+  type PortResponse,
+  isCancelRequest
+} from "~core/constants"
+import { PortName } from "~core/constants"
+import { configManager } from "~core/managers/config"
+import { PermissionScope } from "~core/managers/grant"
+import { originManager } from "~core/managers/origin"
+import { transactionManager } from "~core/managers/transaction"
+import { type UsageReservation, usageManager } from "~core/managers/usage"
+import {
+  codeErr,
+  err,
+  isErr,
+  isOk,
+  ok,
+  unknownErr
+} from "~core/utils/result-monad"
+import { log } from "~core/utils/utils"
+
+import { requestPermission } from "./permission"
+
+const aborter = new RequestAborter()
+
+const handler: PlasmoMessaging.PortHandler<
+  PortRequest[PortName.Embeddings],
+  PortResponse[PortName.Embeddings]
+> = async (req, res) => {
+  log("Background received message: ", req)
+
+  if (!req.body) {
+    return res.send(err(ErrorCode.InvalidRequest))
+  }
+
+  if (isCancelRequest(req.body)) {
+    aborter.abort(req.body.id)
+    // The page already rejected the request, so no response needed
+    return
+  }
+
+  const { id, request } = req.body
+  // Pages can put any origin in a request, so use the one the browser reports
+  const origin = getSenderOrigin(req.port?.sender)
+  if (!origin) {
+    return res.send({ response: codeErr(ErrorCode.InvalidRequest), id })
+  }
+  const txn = request.transaction
+  txn.origin = origin
+  const signal = aborter.start(id)
+  // Held against the domain's limits until the actual usage is recorded
+  let reservation: UsageReservation | undefined
+  try {
+    const permit = await requestPermission(
+      request,
+      origin,
+      id,
+      PermissionScope.Text
+    )
+    if (isErr(permit)) {
+      return res.send({ response: permit, id })
+    }
+
+    const { domain } = origin
+    const quota = await usageManager.checkLimits(domain, txn)
+    if (isErr(quota)) {
+      return res.send({ response: quota, id })
+    }
+    reservation = quota.data
+
+    const config = await configManager.forModelWithDefault(txn.model, origin)
+    const caller = await configManager.getEmbeddingCaller(config)
+    if (!caller) {
+      return res.send({ response: codeErr(ErrorCode.InvalidRequest), id })
+    }
+
+    // If not credentialed, present with login flow
+    if (!configManager.isCredentialed(config)) {
+      const result = codeErr(ErrorCode.NotAuthenticated)
+      promptInterrupts(id, result)
+      return res.send({ response: result, id })
+    }
+
+    txn.routedModel = txn.model ?? caller.config.defaultModel ?? undefined
+    await transactionManager.save(txn)
+
+    let result
+    try {
+      result = await caller.embed(
+        { input: txn.input.texts },
+        {
+          apiKey: config.apiKey,
+          baseUrl: config.baseUrl,
+          model: txn.routedModel,
+          origin: originManager.url(txn.origin),
+          originTitle: txn.origin.title,
+          signal
+        }
+      )
+    } catch (error) {
+      result = unknownErr(error)
+    }
+
+    if (signal.aborted) {
+      txn.error = ErrorCode.Cancelled
+    } else if (isOk(result)) {
+      const outputs = result.data
+      res.send({ response: ok(outputs), id })
+      // Do not store the vectors in the transaction, to save storage
+      txn.outputs = outputs.map(() => ({ embedding: [] }))
+    } else {
+      res.send({ response: result, id })
+      txn.error = result.error.message
+      promptInterrupts(id, result)
+    }
+    await transactionManager.save(txn)
+    await usageManager.record(domain, txn, reservation)
+    reservation = undefined
+  } finally {
+    aborter.finish(id)
+    if (reservation) {
+      await usageManager.release(origin.domain, reservation)
+    }
+  }
+}
+
+export default handler
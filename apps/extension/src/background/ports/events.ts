@@ -1,22 +1,35 @@
-import { ErrorCode, EventType } from "window.ai"
+import { ErrorCode, EventType, type RequestID } from "window.ai"
 
 import type { PlasmoMessaging } from "@plasmohq/messaging"
 
-import { EventBus } from "~background/lib/event-bus"
+import { eventBus } from "~background/lib/event-bus"
 import type { PortRequest, PortResponse } from "~core/constants"
 import { PortName } from "~core/constants"
+import { Extension } from "~core/extension"
 import type { Result } from "~core/utils/result-monad"
 import { err } from "~core/utils/result-monad"
 import { log } from "~core/utils/utils"
 
 export type EventRequest<T> = {
+  // Listens to `event`, or all events if unset
   shouldListen?: boolean
+  // ID of the listen request to stop listening for
+  removeListener?: RequestID
   event?: EventType
   data?: T
+  // Only dispatches the event to pages on this origin
+  origin?: string
+  // Doesn't dispatch the event to pages on these origins
+  skipOrigins?: string[]
 }
-export type EventResponse<T> = Result<{ event: EventType; data: T }, ErrorCode>
+export type EventResponse<T> = Result<
+  // Origin is set if the event is only for pages on that origin
+  { event: EventType; data: T; origin?: string },
+  ErrorCode
+>
 
-const eventBus = new EventBus()
+// Event ports that prune their frame's listeners when they disconnect
+const watchedPorts = new WeakSet<chrome.runtime.Port>()
 
 const handler: PlasmoMessaging.PortHandler<
   PortRequest[PortName.Events],
@@ -30,19 +43,37 @@ const handler: PlasmoMessaging.PortHandler<
 
   const { request, id } = req.body
 
-  if (request.shouldListen) {
-    if (!req.port?.sender?.tab?.id) {
+  const sender = req.port?.sender
+  if (request.shouldListen || request.removeListener) {
+    const tabId = sender?.tab?.id
+    if (!tabId || !sender.url || !id) {
       console.error("Bad sender", req.port)
       return res.send({ id, error: ErrorCode.InvalidRequest })
     }
-    await eventBus.addListener(req.port.sender.tab.id)
-    // We're adding a listener, no response needed
+    const frameId = sender.frameId ?? 0
+    if (request.removeListener) {
+      await eventBus.removeListener(tabId, request.removeListener)
+    } else {
+      await eventBus.addListener(tabId, id, {
+        event: request.event ?? null,
+        origin: new URL(sender.url).origin,
+        frameId
+      })
+    }
+    if (req.port && !watchedPorts.has(req.port)) {
+      watchedPorts.add(req.port)
+      req.port.onDisconnect.addListener(() =>
+        eventBus.removeFrame(tabId, frameId)
+      )
+    }
+    // We're updating listeners, no response needed
     return
   }
 
-  const { event, data } = request
-  if (event) {
-    await eventBus.dispatch(event, data)
+  const { event, data, origin, skipOrigins } = request
+  // Pages can listen to events, but only the extension can dispatch them
+  if (event && Extension.isExtensionURL(sender?.url)) {
+    await eventBus.dispatch(event, data, origin, skipOrigins)
     // No response needed
     return
   }
@@ -8,6 +8,7 @@ import type { PlasmoMessaging } from "@plasmohq/messaging"
 import {
   type PortRequest,
   type PortResponse,
+  isCancelRequest
 } from "~core/constants"
 import { PortName } from "~core/constants"
 import { configManager, AuthType } from "~core/managers/config"
@@ -15,6 +16,7 @@ import {
   transactionManager
 } from "~core/managers/transaction"
 import {
+  codeErr,
   err,
   isErr,
   isOk,
@@ -25,9 +27,14 @@ import { log } from "~core/utils/utils"
 
 import { requestPermission } from "./permission"
 import { getMediaCaller } from "~core/media"
+import { PermissionScope } from "~core/managers/grant"
 import { originManager } from "~core/managers/origin"
+import { type UsageReservation, usageManager } from "~core/managers/usage"
 import { NO_TXN_REFERRER } from "~core/model-router"
-import { promptInterrupts } from "~background/lib/helpers"
+import { getSenderOrigin, promptInterrupts } from "~background/lib/helpers"
+import { RequestAborter } from "~background/lib/request-aborter"
+
+const aborter = new RequestAborter()
 
 const handler: PlasmoMessaging.PortHandler<
   PortRequest[PortName.Media],
@@ -39,61 +46,99 @@ const handler: PlasmoMessaging.PortHandler<
     return res.send(err(ErrorCode.InvalidRequest))
   }
 
-  const { id, request } = req.body
-
-  const permit = await requestPermission(request, id)
-  if (isErr(permit)) {
-    return res.send({ response: permit, id })
+  if (isCancelRequest(req.body)) {
+    aborter.abort(req.body.id)
+    // The page already rejected the request, so no response needed
+    return
   }
 
+  const { id, request } = req.body
+  // Pages can put any origin in a request, so use the one the browser reports
+  const origin = getSenderOrigin(req.port?.sender)
+  if (!origin) {
+    return res.send({ response: codeErr(ErrorCode.InvalidRequest), id })
+  }
   const txn = request.transaction
+  txn.origin = origin
+  const signal = aborter.start(id)
+  // Held against the domain's limits until the actual usage is recorded
+  let reservation: UsageReservation | undefined
+  try {
+    const permit = await requestPermission(
+      request,
+      origin,
+      id,
+      PermissionScope.Media
+    )
+    if (isErr(permit)) {
+      return res.send({ response: permit, id })
+    }
 
-  if ('messages' in txn.input) {
-    return res.send(err(ErrorCode.InvalidRequest))
-  }
 
-  // temporarily, use external model config
-  const config = await configManager.forAuthAndModel(AuthType.External, ModelID.Shap_e)
-  // if not credentialed, present with login flow
-  if(!configManager.isCredentialed(config)){
-    promptInterrupts(id, err(ErrorCode.NotAuthenticated))
-    return res.send({ response: err(ErrorCode.NotAuthenticated), id })
-  }
+    if ('messages' in txn.input) {
+      return res.send({ response: codeErr(ErrorCode.InvalidRequest), id })
+    }
 
-  // only shap-e supported for now
-  txn.routedModel = ModelID.Shap_e
-  await transactionManager.save(txn)
+    const { domain } = origin
+    const quota = await usageManager.checkLimits(domain, txn)
+    if (isErr(quota)) {
+      return res.send({ response: quota, id })
+    }
+    reservation = quota.data
 
-  const modelCaller = getMediaCaller(ModelID.Shap_e)
-  let result
-  try {
-    result = await modelCaller.generate(txn.input, {
-      apiKey: config.apiKey,
-      baseUrl: config.baseUrl,
-      model: txn.routedModel,
-      origin: txn ? originManager.url(txn.origin) : NO_TXN_REFERRER,
-      num_generations: txn.numOutputs,
-      num_inference_steps: txn.numInferenceSteps,
-    })
-  } catch (error) {
-    result = unknownErr(error)
-  }
-  
-  if (isOk(result)) {
-    const outputs = result.data
-    res.send({ response: ok(outputs), id })
-    // do not store URIs in the transaction, empty string to save storage
-    txn.outputs = outputs.map((output: MediaOutput) => ({
-      ...output,
-      uri: "",
-    }))
-  } else {
-    res.send({ response: result, id })
-    txn.error = result.error
-    promptInterrupts(id, result)
+    // temporarily, use external model config
+    const config = await configManager.forAuthAndModel(AuthType.External, ModelID.Shap_e)
+    // if not credentialed, present with login flow
+    if(!configManager.isCredentialed(config)){
+      promptInterrupts(id, codeErr(ErrorCode.NotAuthenticated))
+      return res.send({ response: codeErr(ErrorCode.NotAuthenticated), id })
+    }
+
+    // only shap-e supported for now
+    txn.routedModel = ModelID.Shap_e
+    await transactionManager.save(txn)
+
+    const modelCaller = getMediaCaller(ModelID.Shap_e)
+    let result
+    try {
+      result = await modelCaller.generate(txn.input, {
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl,
+        model: txn.routedModel,
+        origin: txn ? originManager.url(txn.origin) : NO_TXN_REFERRER,
+        num_generations: txn.numOutputs,
+        num_inference_steps: txn.numInferenceSteps,
+        signal
+      })
+    } catch (error) {
+      result = unknownErr(error)
+    }
+
+    if (signal.aborted) {
+      txn.error = ErrorCode.Cancelled
+    } else if (isOk(result)) {
+      const outputs = result.data
+      res.send({ response: ok(outputs), id })
+      // do not store URIs in the transaction, empty string to save storage
+      txn.outputs = outputs.map((output: MediaOutput) => ({
+        ...output,
+        uri: "",
+      }))
+    } else {
+      res.send({ response: result, id })
+      txn.error = result.error.message
+      promptInterrupts(id, result)
+    }
+    // Update the generation with the notification message(for now) and model used
+    await transactionManager.save(txn)
+    await usageManager.record(domain, txn, reservation)
+    reservation = undefined
+  } finally {
+    aborter.finish(id)
+    if (reservation) {
+      await usageManager.release(origin.domain, reservation)
+    }
   }
-  // Update the generation with the notification message(for now) and model used
-  await transactionManager.save(txn)
 }
 
 export default handler
@@ -0,0 +1,30 @@
+import { ErrorCode } from "window.ai"
+
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+
+import { type PortRequest, type PortResponse } from "~core/constants"
+import { PortName } from "~core/constants"
+import { listModels } from "~core/model-registry"
+import { err, ok, unknownErr } from "~core/utils/result-monad"
+import { log } from "~core/utils/utils"
+
+const handler: PlasmoMessaging.PortHandler<
+  PortRequest[PortName.ModelList],
+  PortResponse[PortName.ModelList]
+> = async (req, res) => {
+  log("Model list port received message: ", req)
+
+  if (!req.body) {
+    return res.send(err(ErrorCode.InvalidRequest))
+  }
+
+  const { id } = req.body
+  try {
+    const models = await listModels()
+    res.send({ id, response: ok(models) })
+  } catch (error) {
+    res.send({ id, response: unknownErr(error) })
+  }
+}
+
+export default handler
@@ -1,13 +1,18 @@
-import { ErrorCode } from "window.ai"
+import { ErrorCode, EventType } from "window.ai"
 
 import type { PlasmoMessaging } from "@plasmohq/messaging"
 
+import { eventBus } from "~background/lib/event-bus"
+import { getSenderOrigin } from "~background/lib/helpers"
 import { type PortRequest, type PortResponse } from "~core/constants"
 import { PortName } from "~core/constants"
 import { AuthType, configManager } from "~core/managers/config"
-import { err, isOk, ok } from "~core/utils/result-monad"
+import { PermissionScope } from "~core/managers/grant"
+import { codeErr, err, isErr, isOk, ok } from "~core/utils/result-monad"
 import { log } from "~core/utils/utils"
 
+import { requestPermission } from "./permission"
+
 const handler: PlasmoMessaging.PortHandler<
   PortRequest[PortName.Model],
   PortResponse[PortName.Model]
@@ -19,16 +24,29 @@ const handler: PlasmoMessaging.PortHandler<
   }
 
   const { id, request } = req.body
+  const origin = getSenderOrigin(req.port?.sender)
   if (!request) {
-    const config = await configManager.getDefault()
+    // Pages get the model that their requests would use
+    const config = await configManager.forModelWithDefault(undefined, origin)
     const result = await configManager.predictModel(config)
     return res.send({
       id,
       response: isOk(result) ? ok({ model: result.data }) : result
     })
   }
+  if (!origin) {
+    return res.send({ id, response: codeErr(ErrorCode.InvalidRequest) })
+  }
+  const permit = await requestPermission(
+    { origin, update: request },
+    origin,
+    id,
+    PermissionScope.ProviderUpdate
+  )
+  if (isErr(permit)) {
+    return res.send({ id, response: permit })
+  }
   // TODO handle other model providers here by checking request.baseUrl
-  // TODO request the user's permission to add the model provider
   const { session, shouldSetDefault } = request
   const config = await configManager.getOrInit(AuthType.External)
   const newConfig = {
@@ -41,6 +59,12 @@ const handler: PlasmoMessaging.PortHandler<
   if (shouldSetDefault) {
     await configManager.setDefault(newConfig)
   }
+  if (!!newConfig.session !== !!config.session) {
+    await eventBus.dispatch(EventType.AuthChanged, {
+      isSignedIn: !!newConfig.session
+    })
+  }
+  res.send({ id, response: ok({ model: configManager.getModel(newConfig) }) })
 }
 
 export default handler
@@ -0,0 +1,120 @@
+import { ErrorCode } from "window.ai"
+
+import type { CompletionRequest } from "~core/constants"
+import { Extension } from "~core/extension"
+import { type PermissionGrant, PermissionScope } from "~core/managers/grant"
+import { type OriginData, originManager } from "~core/managers/origin"
+import { RuleMatch, ruleManager } from "~core/managers/rule"
+import { codeErr, ok } from "~core/utils/result-monad"
+
+import { requestPermission } from "./permission"
+
+jest.mock("~core/extension", () => ({
+  Extension: { openPopup: jest.fn(async () => ({})) }
+}))
+jest.mock("~background/lib/event-bus", () => ({
+  eventBus: { dispatch: jest.fn() }
+}))
+
+const allow: PermissionGrant = { decision: "allow" }
+const deny: PermissionGrant = { decision: "deny" }
+
+let pageCount = 0
+
+// Each test gets a page without any grants yet
+function page(domain = "https://app.example.com"): OriginData {
+  return originManager.getData(domain, `/page${pageCount++}`, "App")
+}
+
+function request(origin: OriginData, model?: string) {
+  return { transaction: { origin, model } } as CompletionRequest
+}
+
+async function grantPage(origin: OriginData, grant: PermissionGrant) {
+  await originManager.save(
+    originManager.withGrant(
+      originManager.init(origin),
+      { scope: PermissionScope.Text },
+      grant
+    )
+  )
+}
+
+async function grantRule(
+  match: RuleMatch,
+  pattern: string,
+  grant: PermissionGrant | undefined
+) {
+  await ruleManager.save(
+    ruleManager.withGrant(
+      ruleManager.init(match, pattern),
+      { scope: PermissionScope.Text },
+      grant
+    )
+  )
+}
+
+function decide(origin: OriginData, requester = request(origin)) {
+  return requestPermission(requester, origin, "request", PermissionScope.Text)
+}
+
+describe("requestPermission", () => {
+  afterEach(async () => {
+    await grantRule(RuleMatch.Domain, "https://app.example.com", undefined)
+    await grantRule(RuleMatch.Wildcard, "*.example.com", undefined)
+    await grantRule(RuleMatch.Wildcard, "*.app.example.com", undefined)
+    jest.mocked(Extension.openPopup).mockClear()
+  })
+
+  it("uses the page's grant over its domain's", async () => {
+    const origin = page()
+    await grantPage(origin, allow)
+    await grantRule(RuleMatch.Domain, origin.domain, deny)
+
+    expect(await decide(origin)).toEqual(ok(true))
+  })
+
+  it("uses the domain's grant when the page has none", async () => {
+    const origin = page()
+    await grantRule(RuleMatch.Domain, origin.domain, deny)
+
+    expect(await decide(origin)).toEqual(codeErr(ErrorCode.PermissionDenied))
+  })
+
+  it("uses the most specific wildcard rule that matches", async () => {
+    await grantRule(RuleMatch.Wildcard, "*.example.com", deny)
+    expect(await decide(page())).toEqual(codeErr(ErrorCode.PermissionDenied))
+
+    await grantRule(RuleMatch.Wildcard, "*.app.example.com", allow)
+    expect(await decide(page("https://eu.app.example.com"))).toEqual(ok(true))
+  })
+
+  it("asks the user when nothing covers the page", async () => {
+    await grantRule(RuleMatch.Wildcard, "*.other.com", allow)
+
+    void decide(page())
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(Extension.openPopup).toHaveBeenCalled()
+  })
+
+  it("decides for the sender's origin, not the one in the request", async () => {
+    const origin = page()
+    const claimed = page("https://trusted.com")
+    await grantPage(claimed, allow)
+    await grantPage(origin, deny)
+
+    expect(await decide(origin, request(claimed))).toEqual(
+      codeErr(ErrorCode.PermissionDenied)
+    )
+  })
+
+  it("counts requests against a limited grant", async () => {
+    const origin = page()
+    await grantPage(origin, { decision: "allow", requestsLeft: 1 })
+
+    expect(await decide(origin)).toEqual(ok(true))
+    void decide(origin)
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(Extension.openPopup).toHaveBeenCalledTimes(1)
+  })
+})
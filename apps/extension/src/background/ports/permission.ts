@@ -1,24 +1,31 @@
-import { ErrorCode } from "window.ai"
+import {
+  ErrorCode,
+  EventType,
+  type PermissionChange,
+  type WindowAIErrorData
+} from "window.ai"
 
 import type { PlasmoMessaging } from "@plasmohq/messaging"
 
+import { eventBus } from "~background/lib/event-bus"
 import { RequestState } from "~background/lib/request-state"
 import {
-  type CompletionRequest,
-  type MediaRequest,
+  type PermissionRequester,
   type PortRequest,
   type PortResponse,
   RequestInterruptType
 } from "~core/constants"
 import { POPUP_HEIGHT, POPUP_WIDTH, PortName } from "~core/constants"
 import { Extension } from "~core/extension"
-import { originManager } from "~core/managers/origin"
+import type { PermissionDecision, PermissionScope } from "~core/managers/grant"
+import { type OriginData, originManager } from "~core/managers/origin"
+import { ruleManager } from "~core/managers/rule"
 import type { Result } from "~core/utils/result-monad"
-import { err, ok } from "~core/utils/result-monad"
+import { codeErr, err, ok } from "~core/utils/result-monad"
 import { log } from "~core/utils/utils"
 
 const permissionState = new RequestState<
-  CompletionRequest | MediaRequest,
+  { requester: PermissionRequester; scope: PermissionScope },
   PortRequest[PortName.Permission]["request"]
 >()
 const handler: PlasmoMessaging.PortHandler<
@@ -38,8 +45,8 @@ const handler: PlasmoMessaging.PortHandler<
     return
   }
 
-  const requester = permissionState.get(requesterId)
-  if (!requester) {
+  const pending = permissionState.get(requesterId)
+  if (!pending) {
     return res.send({
       id: req.body.id,
       error: ErrorCode.RequestNotFound
@@ -49,20 +56,28 @@ const handler: PlasmoMessaging.PortHandler<
   // We're starting a request, so send the request to the extension UI
   res.send({
     requesterId,
-    requester
+    ...pending
   })
 }
 
+// The origin must come from the port's sender, since pages can put any origin
+// in their requests
 export async function requestPermission(
-  request: CompletionRequest | MediaRequest,
-  requestId: string
-): Promise<Result<true, ErrorCode>> {
-  const originData = request.transaction.origin
-  const origin = await originManager.getOrInit(originData.id, originData)
-  if (origin.permissions === "allow") {
-    log("Permission granted by user settings: ", origin)
+  request: PermissionRequester,
+  originData: OriginData,
+  requestId: string,
+  scope: PermissionScope
+): Promise<Result<true, WindowAIErrorData>> {
+  const model = "transaction" in request ? request.transaction.model : undefined
+  const decision = await _decide(originData, scope, model)
+  if (decision === "allow") {
+    log("Permission granted by user settings: ", originData)
     return ok(true)
   }
+  if (decision === "deny") {
+    log("Permission denied by user settings: ", originData)
+    return codeErr(ErrorCode.PermissionDenied)
+  }
 
   const window = await Extension.openPopup(POPUP_WIDTH, POPUP_HEIGHT, {
     requestId,
@@ -83,15 +98,25 @@ export async function requestPermission(
     })
   }
 
-  permissionState.start(requestId, request)
+  permissionState.start(requestId, { requester: request, scope })
 
-  return new Promise<Result<true, ErrorCode>>((resolve, reject) => {
+  return new Promise<Result<true, WindowAIErrorData>>((resolve, reject) => {
     permissionState.addCompletionListener(
       requestId,
       async (request, result) => {
         const { permitted } = result
+        const change: PermissionChange = {
+          path: originData.path,
+          permitted: !!permitted,
+          isPersistent: false
+        }
+        eventBus.dispatch(
+          EventType.PermissionChanged,
+          change,
+          originData.domain
+        )
         if (!permitted) {
-          resolve(err(ErrorCode.PermissionDenied))
+          resolve(codeErr(ErrorCode.PermissionDenied))
         } else {
           resolve(ok(true))
         }
@@ -111,4 +136,24 @@ export async function requestPermission(
   })
 }
 
+// Uses the most specific grant: the page's own, then its domain's, then the
+// closest wildcard rule's
+async function _decide(
+  originData: OriginData,
+  scope: PermissionScope,
+  model?: string
+): Promise<PermissionDecision | undefined> {
+  const decision = await originManager.consumeGrant(originData.id, scope, model)
+  if (decision) {
+    return decision
+  }
+  for (const rule of await ruleManager.forOrigin(originData)) {
+    const decision = await ruleManager.consumeGrant(rule.id, scope, model)
+    if (decision) {
+      return decision
+    }
+  }
+  return undefined
+}
+
 export default handler
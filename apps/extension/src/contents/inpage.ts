@@ -1,18 +1,31 @@
 import type { PlasmoCSConfig } from "plasmo"
 import { v4 as uuidv4 } from "uuid"
 import {
+  type CompletionOptions,
+  ErrorCode,
+  type EventData,
   type EventListenerHandler,
   EventType,
+  type InferredOutput,
+  type Input,
   type ModelID,
   type RequestID,
   VALID_DOMAIN,
-  type WindowAI
+  WINDOW_AI_READY_EVENT,
+  type WindowAI,
+  WindowAIError,
+  type WindowAIErrorData,
+  announceWindowAIProvider,
+  mergePartialOutputs
 } from "window.ai"
 
 import type {
+  CancelRequest,
   CompletionResponse,
+  EmbeddingResponse,
   EventResponse,
   MediaResponse,
+  ModelListResponse,
   ModelResponse,
   PortRequest
 } from "~core/constants"
@@ -36,49 +49,132 @@ export const config: PlasmoCSConfig = {
 export const windowAI: WindowAI<ModelID | string> = {
   __window_ai_metadata__: {
     domain: VALID_DOMAIN,
-    version
+    version,
+    name: "Window AI"
   },
 
   async generateText(input, options = {}) {
-    const { onStreamResult } = _validateOptions(options)
-    const hasStreamHandler = !!onStreamResult
-    const requestId = _relayRequest(PortName.Completion, {
-      transaction: transactionManager.init(input, _getOriginData(), options),
-      hasStreamHandler
+    const {
+      onStreamResult,
+      onStreamResults,
+      numOutputs = 1
+    } = _validateOptions(options)
+    if (!onStreamResult && !onStreamResults) {
+      return _generateText(input, options)
+    }
+    let outputs: InferredOutput<typeof input>[] = []
+    return _generateText(input, options, (partials) => {
+      partials.forEach((p) => onStreamResult && onStreamResult(p, null))
+      outputs = mergePartialOutputs(input, numOutputs, outputs, partials)
+      onStreamResults && onStreamResults(outputs, null)
     })
-    return new Promise((resolve, reject) => {
-      _addResponseListener<CompletionResponse<typeof input>>(
-        requestId,
-        (res) => {
-          if (isOk(res)) {
-            if (
-              res.data[0] &&
-              "isPartial" in res.data[0] &&
-              res.data[0].isPartial
-            ) {
-              onStreamResult && res.data.forEach((d) => onStreamResult(d, null))
-            } else {
-              resolve(res.data)
-            }
-          } else {
-            reject(res.error)
-            onStreamResult && onStreamResult(null, res.error)
-          }
+  },
+
+  async *streamText(input, options = {}) {
+    const { signal } = _validateOptions(options)
+    // Cancels the request if the caller stops iterating early
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    if (signal?.aborted) {
+      abort()
+    } else {
+      signal?.addEventListener("abort", abort)
+    }
+
+    const results: InferredOutput<typeof input>[] = []
+    let isDone = false
+    let error: unknown
+    let wake: (() => void) | undefined
+    const push = (done: boolean, ...outputs: typeof results) => {
+      results.push(...outputs)
+      isDone = isDone || done
+      wake && wake()
+    }
+
+    // Errors are handled by the promise rejection below
+    _generateText(
+      input,
+      { ...options, signal: controller.signal },
+      (partials) => push(false, ...partials)
+    ).then(
+      (outputs) => push(true, ...outputs),
+      (e) => {
+        error = e
+        push(true)
+      }
+    )
+
+    try {
+      while (results.length || !isDone) {
+        const result = results.shift()
+        if (result) {
+          yield result
+        } else {
+          await new Promise<void>((resolve) => (wake = resolve))
         }
-      )
-    })
+      }
+      if (error !== undefined) {
+        throw error
+      }
+    } finally {
+      signal?.removeEventListener("abort", abort)
+      if (!isDone) {
+        abort()
+      }
+    }
   },
 
   async BETA_generate3DObject(input, options = {}) {
+    const { signal } = options
+    if (signal?.aborted) {
+      throw _cancelledError()
+    }
     const requestId = _relayRequest(PortName.Media, {
       transaction: transactionManager.init(input, _getOriginData(), options)
     })
     return new Promise((resolve, reject) => {
+      const removeAbortListener = _relayAbort(
+        PortName.Media,
+        requestId,
+        signal,
+        () => reject(_cancelledError())
+      )
       _addResponseListener<MediaResponse>(requestId, (res) => {
+        removeAbortListener()
+        if (isOk(res)) {
+          resolve(res.data)
+        } else {
+          reject(new WindowAIError(res.error))
+        }
+      })
+    })
+  },
+
+  async generateEmbeddings(input, options = {}) {
+    const { signal } = options
+    if (signal?.aborted) {
+      throw _cancelledError()
+    }
+    const requestId = _relayRequest(PortName.Embeddings, {
+      transaction: transactionManager.initEmbedding(
+        input,
+        _getOriginData(),
+        options
+      )
+    })
+    return new Promise((resolve, reject) => {
+      const removeAbortListener = _relayAbort(
+        PortName.Embeddings,
+        requestId,
+        signal,
+        () => reject(_cancelledError())
+      )
+      _addResponseListener<EmbeddingResponse>(requestId, (res) => {
+        removeAbortListener()
         if (isOk(res)) {
           resolve(res.data)
         } else {
-          reject(res.error)
+          reject(new WindowAIError(res.error))
         }
       })
     })
@@ -87,7 +183,7 @@ export const windowAI: WindowAI<ModelID | string> = {
   async getCompletion(input, options = {}) {
     const shouldReturnMultiple = options.numOutputs && options.numOutputs > 1
     return windowAI.generateText(input, options).then((res) => {
-      return shouldReturnMultiple ? res : (res[0] as any)
+      return shouldReturnMultiple || !res[0] ? res : res[0]
     })
   },
 
@@ -98,18 +194,27 @@ export const windowAI: WindowAI<ModelID | string> = {
         if (isOk(res)) {
           resolve(res.data.model)
         } else {
-          reject(res.error)
+          reject(new WindowAIError(res.error))
         }
       })
     })
   },
 
-  addEventListener<T>(handler: EventListenerHandler<T>) {
-    // TODO - use a dedicated port for events
-    const requestId = _relayRequest(PortName.Events, {
-      shouldListen: true
+  async listModels() {
+    const requestId = _relayRequest(PortName.ModelList, undefined)
+    return new Promise((resolve, reject) => {
+      _addResponseListener<ModelListResponse>(requestId, (res) => {
+        if (isOk(res)) {
+          resolve(res.data)
+        } else {
+          reject(new WindowAIError(res.error))
+        }
+      })
     })
-    _addResponseListener<EventResponse<T>>(null, (res) => {
+  },
+
+  addEventListener<T>(handler: EventListenerHandler<T>) {
+    return _addEventListener<T>(null, (res) => {
       if (isOk(res)) {
         if (res.data.event) {
           handler(res.data.event, res.data.data)
@@ -118,7 +223,23 @@ export const windowAI: WindowAI<ModelID | string> = {
         handler(EventType.Error, res.error)
       }
     })
-    return requestId
+  },
+
+  on(event, handler) {
+    type Data = EventData<ModelID | string>[typeof event]
+    return _addEventListener<Data>(event, (res) => {
+      if (isOk(res)) {
+        handler(res.data.data)
+      } else if (event === EventType.Error) {
+        handler(res.error as Data)
+      }
+    })
+  },
+
+  removeEventListener(id) {
+    if (_eventListeners.delete(id)) {
+      _relayRequest(PortName.Events, { removeListener: id })
+    }
   },
 
   BETA_updateModelProvider({ baseUrl, session, shouldSetDefault }) {
@@ -132,26 +253,82 @@ export const windowAI: WindowAI<ModelID | string> = {
         if (isOk(res)) {
           resolve()
         } else {
-          reject(res.error)
+          reject(new WindowAIError(res.error))
         }
       })
     })
   }
 }
 
+// Streams the partial outputs of each chunk to onPartials, if it's set
+async function _generateText<TInput extends Input>(
+  input: TInput,
+  options: CompletionOptions<ModelID | string, TInput>,
+  onPartials?: (partials: InferredOutput<TInput>[]) => void
+): Promise<InferredOutput<TInput>[]> {
+  const { onStreamResult, onStreamResults, signal } = _validateOptions(options)
+  if (signal?.aborted) {
+    throw _cancelledError()
+  }
+  const requestId = _relayRequest(PortName.Completion, {
+    transaction: transactionManager.init(input, _getOriginData(), options),
+    hasStreamHandler: !!onPartials
+  })
+  return new Promise((resolve, reject) => {
+    const removeAbortListener = _relayAbort(
+      PortName.Completion,
+      requestId,
+      signal,
+      () => {
+        reject(_cancelledError())
+        onStreamResult && onStreamResult(null, ErrorCode.Cancelled)
+        onStreamResults && onStreamResults(null, ErrorCode.Cancelled)
+      }
+    )
+    _addResponseListener<CompletionResponse<TInput>>(requestId, (res) => {
+      if (isOk(res)) {
+        if (
+          res.data[0] &&
+          "isPartial" in res.data[0] &&
+          res.data[0].isPartial
+        ) {
+          onPartials && onPartials(res.data)
+        } else {
+          removeAbortListener()
+          resolve(res.data)
+        }
+      } else {
+        removeAbortListener()
+        reject(new WindowAIError(res.error))
+        onStreamResult && onStreamResult(null, res.error.code)
+        onStreamResults && onStreamResults(null, res.error.code)
+      }
+    })
+  })
+}
+
 // TODO better validation
 function _validateOptions<TOptions>(options: TOptions): TOptions {
   if (
     typeof options !== "object" ||
     (!!options &&
-      "onStreamResult" in options &&
-      typeof options.onStreamResult !== "function")
+      (("onStreamResult" in options &&
+        typeof options.onStreamResult !== "function") ||
+        ("onStreamResults" in options &&
+          typeof options.onStreamResults !== "function")))
   ) {
     throw new Error("Invalid options")
   }
   return options
 }
 
+function _cancelledError(): WindowAIError {
+  return new WindowAIError({
+    code: ErrorCode.Cancelled,
+    message: ErrorCode.Cancelled
+  })
+}
+
 function _getOriginData(): OriginData {
   return originManager.getData(
     window.location.origin,
@@ -162,7 +339,7 @@ function _getOriginData(): OriginData {
 
 function _relayRequest<PN extends PortName>(
   portName: PN,
-  request: PortRequest[PN]["request"]
+  request: Exclude<PortRequest[PN], CancelRequest>["request"]
 ): RequestID {
   const requestId = uuidv4() as RequestID
   const msg = {
@@ -175,12 +352,44 @@ function _relayRequest<PN extends PortName>(
   return requestId
 }
 
-// TODO figure out how to reclaim memory
-// `null` means all listen for all requests
-const _responseListeners = new Map<RequestID | null, Set<(data: any) => void>>()
+// Relays a Cancel message for the request when the signal is aborted.
+// Returns a function that stops listening, for when the request settles.
+function _relayAbort(
+  portName: PortName.Completion | PortName.Media | PortName.Embeddings,
+  requestId: RequestID,
+  signal: AbortSignal | undefined,
+  onAbort: () => void
+): () => void {
+  if (!signal) {
+    return () => {}
+  }
+  const abortListener = () => {
+    const msg = {
+      type: ContentMessageType.Cancel,
+      portName,
+      id: requestId
+    }
+    window.postMessage(msg, "*")
+    _responseListeners.delete(requestId)
+    onAbort()
+  }
+  signal.addEventListener("abort", abortListener, { once: true })
+  return () => signal.removeEventListener("abort", abortListener)
+}
+
+const _responseListeners = new Map<RequestID, Set<(data: any) => void>>()
+
+// Keyed by the ID of the request that added them. A `null` event type
+// means the listener gets all events.
+const _eventListeners = new Map<
+  RequestID,
+  { event: EventType | null; handler: (res: EventResponse<any>) => void }
+>()
 
-function _addResponseListener<T extends Result<any, string>>(
-  requestId: RequestID | null,
+function _addResponseListener<
+  T extends Result<any, WindowAIErrorData | ErrorCode>
+>(
+  requestId: RequestID,
   handler: (data: T) => void
 ) {
   const handlerSet =
@@ -189,6 +398,27 @@ function _addResponseListener<T extends Result<any, string>>(
   _responseListeners.set(requestId, handlerSet)
 }
 
+// Streamed partial outputs are followed by more responses, but anything else
+// is the request's last
+function _isSettled(response: Result<unknown, unknown>): boolean {
+  if (!isOk(response) || !Array.isArray(response.data)) {
+    return true
+  }
+  return !response.data[0]?.isPartial
+}
+
+function _addEventListener<T>(
+  event: EventType | null,
+  handler: (res: EventResponse<T>) => void
+): RequestID {
+  const requestId = _relayRequest(PortName.Events, {
+    shouldListen: true,
+    event: event ?? undefined
+  })
+  _eventListeners.set(requestId, { event, handler })
+  return requestId
+}
+
 window.addEventListener(
   "message",
   (event) => {
@@ -199,19 +429,45 @@ window.addEventListener(
       return
     }
     if (data.type === ContentMessageType.Response) {
-      const msg = data as { id: RequestID; response: unknown }
-      const handlers = new Set([
-        ...(_responseListeners.get(msg.id) || []),
-        ...(_responseListeners.get(null) || [])
-      ])
-
-      if (handlers.size === 0) {
-        throw new Error(`No handlers found for request ${msg.id}`)
+      const msg = data as { id: RequestID; response: Result<unknown, unknown> }
+      // Responses can still arrive after the request was cancelled
+      _responseListeners.get(msg.id)?.forEach((h) => h(msg.response))
+      if (_isSettled(msg.response)) {
+        _responseListeners.delete(msg.id)
+      }
+    }
+    if (data.type === ContentMessageType.Event) {
+      const response = data.response as EventResponse<unknown>
+      // Guards against events meant for a page that was in this tab before
+      if (
+        isOk(response) &&
+        response.data.origin !== undefined &&
+        response.data.origin !== window.location.origin
+      ) {
+        return
       }
-      handlers.forEach((h) => h(msg.response))
+      _eventListeners.forEach(({ event, handler }) => {
+        if (isOk(response) && event && event !== response.data.event) {
+          return
+        }
+        handler(response)
+      })
     }
   },
   false
 )
 
+// Other implementations may have claimed window.ai already, so we also
+// announce ourselves for apps that let users choose a provider
+announceWindowAIProvider(windowAI)
+
 window.ai = window.ai || windowAI
+
+// Lets pages that loaded before us stop waiting for window.ai
+if (window.ai === windowAI) {
+  window.dispatchEvent(
+    new CustomEvent(WINDOW_AI_READY_EVENT, {
+      detail: windowAI.__window_ai_metadata__
+    })
+  )
+}
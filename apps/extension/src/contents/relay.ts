@@ -18,7 +18,9 @@ const portStates: Record<
 > = {
   [PortName.Completion]: {},
   [PortName.Model]: {},
+  [PortName.ModelList]: {},
   [PortName.Media]: {},
+  [PortName.Embeddings]: {},
   [PortName.Events]: {},
   [PortName.Permission]: {}
 }
@@ -40,7 +42,7 @@ Extension.addPortListener((msg, port) => {
     return
   }
   const res = {
-    type: ContentMessageType.Response,
+    type: ContentMessageType.Event,
     portName: PortName.Events,
     id: null,
     response: msg.response
@@ -72,6 +74,7 @@ window.addEventListener("message", (event) => {
       Extension.sendMessage(data, port)
       break
     case ContentMessageType.Response:
+    case ContentMessageType.Event:
       // Handled by inpage script
       break
   }
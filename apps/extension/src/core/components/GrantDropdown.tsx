@@ -0,0 +1,98 @@
+import { EventType } from "window.ai"
+
+import { Dropdown } from "~core/components/pure/Dropdown"
+import {
+  type GrantHolder,
+  type GrantManager,
+  type GrantTarget,
+  type PermissionGrant,
+  PermissionScope
+} from "~core/managers/grant"
+import { sendEvent } from "~core/utils/events"
+
+type GrantChoice = {
+  label: string
+  // Unset goes back to asking
+  grant?: () => PermissionGrant
+}
+
+const HOUR = 60 * 60 * 1000
+
+const grantChoices: GrantChoice[] = [
+  { label: "Ask" },
+  { label: "Always allow", grant: () => ({ decision: "allow" }) },
+  {
+    label: "Allow for 1 hour",
+    grant: () => ({ decision: "allow", expiresAt: Date.now() + HOUR })
+  },
+  {
+    label: "Allow for 1 day",
+    grant: () => ({ decision: "allow", expiresAt: Date.now() + 24 * HOUR })
+  },
+  {
+    label: "Allow for 10 requests",
+    grant: () => ({ decision: "allow", requestsLeft: 10 })
+  },
+  { label: "Always deny", grant: () => ({ decision: "deny" }) }
+]
+
+export const scopeLabels: Record<PermissionScope, string> = {
+  [PermissionScope.Text]: "Text generation",
+  [PermissionScope.Media]: "Media generation",
+  [PermissionScope.ProviderUpdate]: "Model provider changes"
+}
+
+export function GrantDropdown<T extends GrantHolder>({
+  holder,
+  manager,
+  target,
+  onSave,
+  notify
+}: {
+  holder: T
+  manager: GrantManager<T>
+  target: GrantTarget
+  onSave: (holder: T) => void
+  // The pages to send a PermissionChanged event to
+  notify?: { domain: string; path: string }
+}) {
+  const grant = manager.getGrant(holder, target)
+
+  return (
+    <Dropdown
+      choices={grantChoices}
+      getLabel={(c) => c.label}
+      onSelect={(choice) => {
+        const newGrant = choice.grant?.()
+        onSave(manager.withGrant(holder, target, newGrant))
+        if (notify) {
+          sendEvent(
+            EventType.PermissionChanged,
+            {
+              path: notify.path,
+              permitted: newGrant?.decision === "allow",
+              isPersistent: true
+            },
+            notify.domain
+          )
+        }
+      }}>
+      {grant && manager.isActive(grant) ? _describe(grant) : "Ask"}
+    </Dropdown>
+  )
+}
+
+function _describe(grant: PermissionGrant): string {
+  if (grant.decision === "deny") {
+    return "Always deny"
+  }
+  if (grant.expiresAt !== undefined) {
+    return `Allowed until ${new Date(grant.expiresAt).toLocaleString()}`
+  }
+  if (grant.requestsLeft !== undefined) {
+    return `Allowed for ${grant.requestsLeft} more request${
+      grant.requestsLeft === 1 ? "" : "s"
+    }`
+  }
+  return "Always allow"
+}
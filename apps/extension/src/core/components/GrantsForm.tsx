@@ -0,0 +1,69 @@
+import { ModelID } from "window.ai"
+
+import { GrantDropdown, scopeLabels } from "~core/components/GrantDropdown"
+import { Dropdown } from "~core/components/pure/Dropdown"
+import { Text } from "~core/components/pure/Text"
+import {
+  type GrantHolder,
+  type GrantManager,
+  PermissionScope
+} from "~core/managers/grant"
+
+export function GrantsForm<T extends GrantHolder>({
+  holder,
+  manager,
+  onSave,
+  notify
+}: {
+  holder: T
+  manager: GrantManager<T>
+  onSave: (holder: T) => void
+  notify?: { domain: string; path: string }
+}) {
+  const grantedModels = Object.keys(holder.permissions.models)
+  const otherModels = Object.values(ModelID).filter(
+    (model) => !grantedModels.includes(model)
+  )
+
+  return (
+    <div className="flex flex-col gap-2">
+      {Object.values(PermissionScope).map((scope) => (
+        <div key={scope} className="flex justify-between items-center">
+          <Text size="xs" dimming="less">
+            {scopeLabels[scope]}
+          </Text>
+          <GrantDropdown
+            holder={holder}
+            manager={manager}
+            target={{ scope }}
+            onSave={onSave}
+            notify={notify}
+          />
+        </div>
+      ))}
+      {grantedModels.map((model) => (
+        <div key={model} className="flex justify-between items-center">
+          <Text size="xs" dimming="less" truncate>
+            {model}
+          </Text>
+          <GrantDropdown
+            holder={holder}
+            manager={manager}
+            target={{ model }}
+            onSave={onSave}
+            notify={notify}
+          />
+        </div>
+      ))}
+      {otherModels.length > 0 && (
+        <Dropdown
+          choices={otherModels}
+          onSelect={(model) =>
+            onSave(manager.withGrant(holder, { model }, { decision: "allow" }))
+          }>
+          Set permissions for a model
+        </Dropdown>
+      )}
+    </div>
+  )
+}
@@ -9,7 +9,8 @@ export function NavBar() {
 
   const tabs: Tab[] = [
     { name: "Activity", view: "activity" },
-    { name: "Apps", view: "apps" }
+    { name: "Apps", view: "apps" },
+    { name: "Queue", view: "queue" }
   ]
   return (
     <div className="flex flex-row p-2">
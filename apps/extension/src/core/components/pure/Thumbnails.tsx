@@ -0,0 +1,21 @@
+export function Thumbnails({
+  className = "",
+  urls
+}: {
+  className?: string
+  urls: string[]
+}) {
+  return (
+    <div className={"flex flex-wrap gap-2 " + className}>
+      {urls.map((url, i) => (
+        <a key={i} href={url} target="_blank" rel="noreferrer">
+          <img
+            alt={`image ${i + 1}`}
+            src={url}
+            className="h-16 w-16 object-cover rounded-md"
+          />
+        </a>
+      ))}
+    </div>
+  )
+}
@@ -1,23 +1,30 @@
 import type {
+  EmbeddingOutput,
   ErrorCode,
   InferredOutput,
   Input,
   MediaOutput,
   ModelID,
+  ModelInfo,
   ModelProviderOptions,
-  RequestID
+  RequestID,
+  WindowAIErrorData
 } from "window.ai"
 
 import type { EventRequest, EventResponse } from "~background/ports/events"
 
-import type { Transaction } from "./managers/transaction"
+import type { PermissionScope } from "./managers/grant"
+import type { OriginData } from "./managers/origin"
+import type { EmbeddingInput, Transaction } from "./managers/transaction"
 import type { Result } from "./utils/result-monad"
 
 export enum PortName {
   Completion = "completion",
   Media = "media",
+  Embeddings = "embeddings",
   Permission = "permission",
   Model = "model",
+  ModelList = "model-list",
   Events = "events"
 }
 
@@ -39,13 +46,19 @@ export type PopupParams = {
 }
 
 export interface PortRequest {
-  [PortName.Completion]: { id: RequestID; request: CompletionRequest }
-  [PortName.Media]: { id: RequestID; request: MediaRequest }
+  [PortName.Completion]:
+    | { id: RequestID; request: CompletionRequest }
+    | CancelRequest
+  [PortName.Media]: { id: RequestID; request: MediaRequest } | CancelRequest
+  [PortName.Embeddings]:
+    | { id: RequestID; request: EmbeddingRequest }
+    | CancelRequest
   [PortName.Permission]: {
     id?: RequestID
     request: { requesterId: RequestID; permitted?: boolean }
   }
   [PortName.Model]: { id: RequestID; request?: ModelRequest }
+  [PortName.ModelList]: { id: RequestID; request?: undefined }
   [PortName.Events]: { id?: RequestID; request: EventRequest<unknown> }
 }
 
@@ -56,8 +69,15 @@ export interface PortResponse {
   [PortName.Media]:
     | { id: RequestID; response: MediaResponse }
     | { id?: RequestID; error: ErrorCode.InvalidRequest }
+  [PortName.Embeddings]:
+    | { id: RequestID; response: EmbeddingResponse }
+    | { id?: RequestID; error: ErrorCode.InvalidRequest }
   [PortName.Permission]:
-    | { requesterId: RequestID; requester: CompletionRequest | MediaRequest }
+    | {
+        requesterId: RequestID
+        requester: PermissionRequester
+        scope: PermissionScope
+      }
     | {
         id?: RequestID
         error: ErrorCode.InvalidRequest | ErrorCode.RequestNotFound
@@ -65,6 +85,9 @@ export interface PortResponse {
   [PortName.Model]:
     | { id: RequestID; response: ModelResponse }
     | { id?: RequestID; error: ErrorCode.InvalidRequest }
+  [PortName.ModelList]:
+    | { id: RequestID; response: ModelListResponse }
+    | { id?: RequestID; error: ErrorCode.InvalidRequest }
   [PortName.Events]:
     | { id?: RequestID; response: EventResponse<unknown> }
     | { id?: RequestID; error: ErrorCode.InvalidRequest }
@@ -75,35 +98,67 @@ export type PortEvent = PortRequest | PortResponse
 export enum ContentMessageType {
   Request = "request",
   Response = "response",
-  Cancel = "cancel"
+  Cancel = "cancel",
+  // Events dispatched to every listening tab
+  Event = "event"
+}
+
+// Sent by the inpage script when the page aborts an in-flight request
+export type CancelRequest = {
+  id: RequestID
+  type: ContentMessageType.Cancel
+}
+
+export function isCancelRequest(body: object): body is CancelRequest {
+  return "type" in body && body.type === ContentMessageType.Cancel
 }
 
 export type CompletionRequest = {
-  transaction: Transaction
+  transaction: Transaction<Input>
   hasStreamHandler: boolean
 }
 
 export type MediaRequest = {
-  transaction: Transaction
+  transaction: Transaction<Input>
 }
 
 export type MediaResponse<> = Result<
   MediaOutput[],
-  ErrorCode | string
+  WindowAIErrorData
 >
 
 
+export type EmbeddingRequest = {
+  transaction: Transaction<EmbeddingInput>
+}
+
+export type EmbeddingResponse = Result<EmbeddingOutput[], WindowAIErrorData>
+
 export type CompletionResponse<TInput extends Input = Input> = Result<
   InferredOutput<TInput>[],
-  ErrorCode | string
+  WindowAIErrorData
 >
 
 export type ModelRequest = ModelProviderOptions
 export type ModelResponse = Result<
   { model?: ModelID | string },
-  ErrorCode | string
+  WindowAIErrorData
 >
 
+// Sent for permission when a page changes the user's model provider
+export type ProviderUpdateRequest = {
+  origin: OriginData
+  update: ModelRequest
+}
+
+export type PermissionRequester =
+  | CompletionRequest
+  | MediaRequest
+  | EmbeddingRequest
+  | ProviderUpdateRequest
+
+export type ModelListResponse = Result<ModelInfo[], WindowAIErrorData>
+
 export type { EventRequest, EventResponse }
 
 export const IS_SERVER =
@@ -40,8 +40,13 @@ export const Extension = {
     return port
   },
 
-  connectToTab(tabId: number, onDisconnect?: () => void): Port {
-    const port = browser.tabs.connect(tabId)
+  // Connects to every frame in the tab, unless frameId is set
+  connectToTab(
+    tabId: number,
+    frameId?: number,
+    onDisconnect?: () => void
+  ): Port {
+    const port = browser.tabs.connect(tabId, { frameId })
     port.onDisconnect.addListener(() => {
       console.info("Disconnected from tab", tabId)
       onDisconnect && onDisconnect()
@@ -81,9 +86,18 @@ export const Extension = {
   // Convenience method for firing a one-time message to a tab.
   sendToTab<PN extends PortName, PR extends PortResponse>(
     tabId: number,
-    data: PR[PN]
+    data: PR[PN],
+    frameId?: number
   ) {
-    Extension.sendMessage<PN, PR>(data, Extension.connectToTab(tabId), false)
+    Extension.sendMessage<PN, PR>(
+      data,
+      Extension.connectToTab(tabId, frameId),
+      false
+    )
+  },
+
+  isExtensionURL(url?: string): boolean {
+    return !!url && url.startsWith(browser.runtime.getURL(""))
   },
 
   async openPopup(
@@ -152,5 +166,19 @@ export const Extension = {
       }
     }
     browser.windows.onRemoved.addListener(onRemovedListener)
+  },
+
+  // Calls the handler with the tab's URL whenever it starts loading a page
+  addTabNavigationListener(handler: (tabId: number, url: string) => void) {
+    browser.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+      const url = changeInfo.url ?? tab.url
+      if ((changeInfo.url || changeInfo.status === "loading") && url) {
+        handler(tabId, url)
+      }
+    })
+  },
+
+  addTabRemovedListener(handler: (tabId: number) => void) {
+    browser.tabs.onRemoved.addListener((tabId) => handler(tabId))
   }
 }
@@ -1,3 +1,5 @@
+import { FinishReason, type Usage } from "window.ai"
+
 import { messagesToPrompt } from "~core/utils/utils"
 
 import type { ModelConfig, RequestOptions } from "./model"
@@ -30,6 +32,7 @@ export function init(
     {
       ...config,
       isStreamable: false,
+      unsupportedOptions: ["seed"],
       defaultBaseUrl: "https://api.cohere.ai",
       getPath: () => "/generate",
       authPrefix: "BEARER ",
@@ -46,31 +49,68 @@ export function init(
           stop_sequences,
           identifier,
           num_generations,
+          tools,
+          seed,
+          logit_bias,
+          response_format,
+          continue_last_message,
           ...optsToSend
         } = req
         const fullPrompt =
           prompt !== undefined
             ? prompt
             : messages
-            ? messagesToPrompt(messages)
+            ? messagesToPrompt(messages, continue_last_message)
             : undefined
         return {
           ...optsToSend,
           stop_sequences,
           prompt: fullPrompt,
           p: top_p,
+          logit_bias: logit_bias ?? undefined,
           num_generations
         }
       },
       transformResponse: (res) => {
         const anyRes = res as any
+        const usage = _parseUsage(anyRes["meta"]?.["billed_units"])
         return anyRes["generations"]
-          ? anyRes["generations"].map((g: any) => g["text"])
+          ? anyRes["generations"].map((g: any) => ({
+              text: g["text"],
+              finishReason: _parseFinishReason(g["finish_reason"]),
+              usage
+            }))
           : anyRes["text"]
-          ? [anyRes["text"]]
+          ? [{ text: anyRes["text"], usage }]
           : []
       }
     },
     options
   )
 }
+
+function _parseFinishReason(raw: unknown): FinishReason | undefined {
+  switch (raw) {
+    case "COMPLETE":
+      return FinishReason.Stop
+    case "MAX_TOKENS":
+      return FinishReason.Length
+    case "ERROR_TOXIC":
+      return FinishReason.ContentFilter
+    default:
+      return undefined
+  }
+}
+
+function _parseUsage(billedUnits: any): Usage | undefined {
+  if (
+    typeof billedUnits?.["input_tokens"] !== "number" ||
+    typeof billedUnits?.["output_tokens"] !== "number"
+  ) {
+    return undefined
+  }
+  return {
+    promptTokens: billedUnits["input_tokens"],
+    completionTokens: billedUnits["output_tokens"]
+  }
+}
@@ -0,0 +1,220 @@
+import fetchAdapter from "@vespaiach/axios-fetch-adapter"
+import type { AxiosInstance, AxiosRequestConfig } from "axios"
+import axios, { AxiosError } from "axios"
+import axiosRetry, { exponentialDelay } from "axios-retry"
+import objectHash from "object-hash"
+import {
+  type EmbeddingOutput,
+  ErrorCode,
+  type WindowAIErrorData
+} from "window.ai"
+
+import { parseAxiosError } from "~core/utils/errors"
+import { type Err, type Result, err, ok } from "~core/utils/result-monad"
+import { definedValues } from "~core/utils/utils"
+
+// These options are specific to the model shape and archetype
+export interface EmbeddingModelConfig {
+  defaultBaseUrl: string
+  identifier: string
+  getPath: (request: RequestData) => string
+  transformForRequest: (
+    request: RequestData,
+    meta: RequestMetadata
+  ) => Record<string, unknown>
+  transformResponse: (res: unknown) => EmbeddingOutput[]
+
+  // Optionals
+  // Used when the request doesn't specify an embedding model
+  defaultModel?: string | null
+  overrideModelParam?: (request: RequestData) => string | null
+  customHeaders?: Record<string, string>
+  authPrefix?: string
+  debug?: boolean
+  retries?: number
+  adapter?: AxiosRequestConfig["adapter"]
+}
+
+export interface RequestOptions {
+  baseUrl?: string
+  apiKey?: string | null
+  model?: string | null
+  origin?: string | null
+  originTitle?: string | null
+  timeout?: number
+  user_identifier?: string | null
+  adapter?: AxiosRequestConfig["adapter"] | null
+  signal?: AbortSignal | null
+}
+
+type RequestInput = { input: string[] }
+
+export type RequestData = Omit<
+  Required<RequestOptions>,
+  | "user_identifier"
+  | "timeout"
+  | "apiKey"
+  | "origin"
+  | "originTitle"
+  | "adapter"
+  | "signal" // These do not affect output of the model
+> &
+  Pick<Required<EmbeddingModelConfig>, "identifier"> & // To distinguish btw providers with same-name models
+  RequestInput
+
+export type RequestMetadata = Pick<RequestOptions, "user_identifier">
+
+export class EmbeddingModel {
+  public api: AxiosInstance
+  public config: Required<EmbeddingModelConfig>
+  public defaultOptions: Required<RequestOptions>
+
+  constructor(config: EmbeddingModelConfig, opts: RequestOptions = {}) {
+    // Defaults
+    this.config = this.addDefaults(config)
+    this.defaultOptions = {
+      baseUrl: this.config.defaultBaseUrl,
+      model: this.config.defaultModel,
+      origin: null,
+      originTitle: null,
+      apiKey: null,
+      timeout: 42000,
+      user_identifier: null,
+      adapter: null,
+      signal: null,
+      ...definedValues(opts)
+    }
+    // Create API client
+    this.api = axios.create({
+      baseURL: this.defaultOptions.baseUrl,
+      headers: {
+        "Content-Type": "application/json",
+        ...this.config.customHeaders
+      },
+      adapter: this.config.adapter || undefined
+    })
+    axiosRetry(this.api, {
+      retries: this.config.retries,
+      retryDelay: exponentialDelay,
+      retryCondition: (error) => {
+        if (error.code === AxiosError.ERR_CANCELED) {
+          return false
+        }
+        return (
+          axiosRetry.isNetworkError(error) ||
+          error.code === "ECONNABORTED" ||
+          error.response?.status === 429
+        )
+      }
+    })
+  }
+
+  addDefaults(config: EmbeddingModelConfig): Required<EmbeddingModelConfig> {
+    const opts: Required<EmbeddingModelConfig> = {
+      authPrefix: "Bearer ",
+      retries: 5,
+      debug: true,
+      customHeaders: {},
+      adapter: fetchAdapter,
+      defaultModel: null,
+      ...definedValues(config),
+      // Functions throw a ts error when placed above the spread
+      overrideModelParam:
+        config.overrideModelParam || ((request: RequestData) => request.model)
+    }
+    return opts
+  }
+
+  log(...args: unknown[]): void {
+    if (this.config.debug) {
+      console.log(`[EMBEDDING_MODEL ${this.config.identifier}]: `, ...args)
+    }
+  }
+
+  error(...args: unknown[]): void {
+    if (this.config.debug) {
+      console.error(`[EMBEDDING_MODEL ${this.config.identifier}]: `, ...args)
+    }
+  }
+
+  getRequestIdentifierData(
+    requestInput: RequestInput,
+    opts: Required<RequestOptions>
+  ): RequestData {
+    const ret = {
+      ...requestInput,
+      model: opts.model,
+      identifier: this.config.identifier,
+      baseUrl: opts.baseUrl
+    }
+    return {
+      ...ret,
+      model: this.config.overrideModelParam(ret)
+    }
+  }
+
+  async embed(
+    requestInput: RequestInput,
+    requestOpts: RequestOptions = {}
+  ): Promise<Result<EmbeddingOutput[], WindowAIErrorData>> {
+    const { transformForRequest, getPath, transformResponse } = this.config
+    const opts: Required<RequestOptions> = {
+      ...this.defaultOptions,
+      ...definedValues(requestOpts)
+    }
+    const request = this.getRequestIdentifierData(requestInput, opts)
+    const id = objectHash(request)
+    const inputSnippet = JSON.stringify(requestInput).slice(0, 100)
+    const payload = transformForRequest(request, opts)
+    this.log(`EMBEDDING id ${id}: ${inputSnippet}...`, {
+      modelId: request.model,
+      count: requestInput.input.length
+    })
+    let responseData: Record<string, any>
+    try {
+      const response = await this.api.post(getPath(request), payload, {
+        baseURL: opts.baseUrl,
+        timeout: opts.timeout,
+        signal: opts.signal ?? undefined,
+        headers: this._getRequestHeaders(opts)
+      })
+      responseData = response.data
+    } catch (err: unknown) {
+      return this._handleModelAPIError(err)
+    }
+
+    this.log("RESPONSE for id " + id)
+    const result = transformResponse(responseData)
+    if (result.length !== requestInput.input.length) {
+      const e = new Error(
+        `Returned ${result.length} embeddings for ${requestInput.input.length} inputs`
+      )
+      this.error(e)
+      throw e
+    }
+    return ok(result)
+  }
+
+  protected _getRequestHeaders(opts: Required<RequestOptions>) {
+    const { authPrefix } = this.config
+    return {
+      Authorization: opts.apiKey ? `${authPrefix}${opts.apiKey}` : undefined,
+      "X-API-KEY": opts.apiKey || undefined,
+      "HTTP-Referer": opts.origin,
+      "X-WINDOWAI-TITLE": opts.originTitle
+    }
+  }
+
+  private _handleModelAPIError(error: unknown): Err<WindowAIErrorData> {
+    if (!(error instanceof AxiosError)) {
+      const errorStr = `Unknown error: ${error}`
+      this.error(errorStr)
+      throw new Error(errorStr)
+    }
+    const apiError = parseAxiosError(error, this.config.identifier)
+    if (apiError.code === ErrorCode.ModelRejectedRequest) {
+      this.error(`Unknown Axios error: `, apiError, error.response?.data)
+    }
+    return err(apiError)
+  }
+}
@@ -1,10 +1,20 @@
 import { ModelID } from "window.ai"
 
 import { init as initCohere } from "./cohere"
-import { init as initLocal } from "./local"
+import { EmbeddingModel } from "./embedding-model"
+import {
+  init as initLocal,
+  initEmbeddings as initLocalEmbeddings
+} from "./local"
 import { Model } from "./model"
-import { init as initOpenAI } from "./openai"
-import { init as initOpenRouter } from "./openrouter"
+import {
+  init as initOpenAI,
+  initEmbeddings as initOpenAIEmbeddings
+} from "./openai"
+import {
+  init as initOpenRouter,
+  initEmbeddings as initOpenRouterEmbeddings
+} from "./openrouter"
 import { init as initTogether } from "./together"
 
 // TODO configure basic in-memory lru cache
@@ -98,8 +108,55 @@ export function getCaller(
     case ModelID.Palm_Chat_Bison:
     case ModelID.Palm_Code_Chat_Bison:
     case ModelID.Shap_e:
+    case ModelID.Ada_Embedding_V2:
       return openrouter
     case undefined:
       return shouldPreferDirect ? local : openrouter
   }
 }
+
+export const localEmbeddings = initLocalEmbeddings(
+  {
+    debug: shouldDebugModels,
+    identifier: ModelProvider.Local
+  },
+  {}
+)
+
+export const openrouterEmbeddings = initOpenRouterEmbeddings(
+  {
+    debug: shouldDebugModels,
+    identifier: ModelProvider.OpenRouter
+  },
+  {}
+)
+
+export const openaiDirectEmbeddings = initOpenAIEmbeddings(
+  {
+    debug: shouldDebugModels,
+    identifier: ModelProvider.OpenAI
+  },
+  {}
+)
+
+// Returns undefined if the provider can't generate embeddings
+export function getEmbeddingCaller(
+  model?: ModelID,
+  shouldPreferDirect?: boolean
+): EmbeddingModel | undefined {
+  if (!shouldPreferDirect) {
+    return openrouterEmbeddings
+  }
+  switch (model) {
+    case ModelID.GPT_3:
+    case ModelID.GPT_3_16k:
+    case ModelID.GPT_4:
+    case ModelID.GPT_4_32k:
+    case ModelID.Ada_Embedding_V2:
+      return openaiDirectEmbeddings
+    case undefined:
+      return localEmbeddings
+    default:
+      return undefined
+  }
+}
@@ -1,7 +1,12 @@
 import { messagesToPrompt } from "~core/utils/utils"
 
+import type {
+  EmbeddingModelConfig,
+  RequestOptions as EmbeddingRequestOptions
+} from "./embedding-model"
+import { EmbeddingModel } from "./embedding-model"
 import type { ModelConfig, RequestOptions } from "./model"
-import { Model } from "./model"
+import { Model, parseFinishReason, parseUsage } from "./model"
 
 // NOTE: Unused
 export enum AlpacaModelId {
@@ -18,16 +23,25 @@ export function init(
     {
       ...config,
       isStreamable: true,
+      isInsertable: true,
       defaultBaseUrl: "http://127.0.0.1:8000",
       getPath: () => "/completions",
       getRoutePath: () => "/model",
       transformForRequest: (req) => {
-        const { prompt, messages, identifier, ...optsToSend } = req
+        const {
+          prompt,
+          messages,
+          identifier,
+          tools,
+          response_format,
+          continue_last_message,
+          ...optsToSend
+        } = req
         const fullPrompt =
           prompt !== undefined
             ? prompt
             : messages
-            ? messagesToPrompt(messages)
+            ? messagesToPrompt(messages, continue_last_message)
             : undefined
         return {
           ...optsToSend,
@@ -36,7 +50,38 @@ export function init(
       },
       transformResponse: (res) => {
         const anyRes = res as any
-        return anyRes["choices"].map((c: any) => c["text"])
+        const usage = parseUsage(anyRes["usage"])
+        return anyRes["choices"].map((c: any) => ({
+          text: c["text"],
+          index: c["index"],
+          finishReason: parseFinishReason(c["finish_reason"]),
+          usage
+        }))
+      }
+    },
+    opts
+  )
+}
+
+export function initEmbeddings(
+  config: Pick<EmbeddingModelConfig, "debug" | "identifier">,
+  opts: EmbeddingRequestOptions
+): EmbeddingModel {
+  return new EmbeddingModel(
+    {
+      ...config,
+      defaultBaseUrl: "http://127.0.0.1:8000",
+      getPath: () => "/embeddings",
+      transformForRequest: (req) => {
+        const { identifier, baseUrl, ...optsToSend } = req
+        return optsToSend
+      },
+      transformResponse: (res) => {
+        const anyRes = res as any
+        // Sort by index so that embeddings line up with the inputs
+        return [...anyRes["data"]]
+          .sort((a: any, b: any) => a["index"] - b["index"])
+          .map((d: any) => ({ embedding: d["embedding"] }))
       }
     },
     opts
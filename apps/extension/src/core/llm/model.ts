@@ -3,10 +3,25 @@ import type { AxiosInstance, AxiosRequestConfig } from "axios"
 import axios, { AxiosError } from "axios"
 import axiosRetry, { exponentialDelay } from "axios-retry"
 import objectHash from "object-hash"
-import { type ChatMessage, ErrorCode } from "window.ai"
+import {
+  type ChatMessage,
+  ErrorCode,
+  FinishReason,
+  type ResponseFormat,
+  type Tool,
+  type ToolCall,
+  type Usage,
+  type WindowAIErrorData
+} from "window.ai"
 
+import { parseAxiosError } from "~core/utils/errors"
 import { type Err, type Result, err, ok } from "~core/utils/result-monad"
-import { definedValues, parseDataChunks } from "~core/utils/utils"
+import {
+  definedValues,
+  insertionToPrompt,
+  jsonInstruction,
+  parseDataChunks
+} from "~core/utils/utils"
 
 // These options are specific to the model shape and archetype
 export interface ModelConfig {
@@ -18,9 +33,13 @@ export interface ModelConfig {
     request: RequestData,
     meta: RequestMetadata
   ) => Record<string, unknown>
-  transformResponse: (res: unknown) => string[]
+  transformResponse: (res: unknown) => ModelOutput[]
 
   // Optionals
+  // Options that the provider ignores
+  unsupportedOptions?: Array<keyof RequestOptions>
+  // Whether the provider accepts a `suffix` to insert text before
+  isInsertable?: boolean
   getRoutePath?: (request: RequestData) => string | null
   overrideModelParam?: (request: RequestData) => string | null
   customHeaders?: Record<string, string>
@@ -42,14 +61,20 @@ export interface RequestOptions {
   frequency_penalty?: number
   presence_penalty?: number
   top_p?: number
+  seed?: number | null
+  logit_bias?: Record<string, number> | null
+  response_format?: ResponseFormat | null
+  continue_last_message?: boolean
   stop_sequences?: string[] | null
   num_generations?: number
   temperature?: number
   timeout?: number
   user_identifier?: string | null
   max_tokens?: number | null
+  tools?: Tool[] | null
   stream?: boolean
   adapter?: AxiosRequestConfig["adapter"] | null
+  signal?: AbortSignal | null
 }
 
 type RequestPromptBasic = { prompt: string; suffix?: string }
@@ -66,20 +91,43 @@ export type RequestData = Omit<
   | "apiKey"
   | "origin"
   | "originTitle"
-  | "adapter" // These do not affect output of the model
+  | "adapter"
+  | "signal" // These do not affect output of the model
 > &
   Pick<Required<ModelConfig>, "identifier"> & // To distinguish btw providers with same-name models
   RequestPrompt
 
 export type RequestMetadata = Pick<RequestOptions, "user_identifier">
 
+// A tool call, or a fragment of one when streaming. Fragments with the
+// same index belong to the same call.
+export type ToolCallDelta = {
+  index: number
+  id?: string
+  function?: { name?: string; arguments?: string }
+}
+
+// One choice returned by the model, or a delta of it when streaming
+export interface ModelOutput {
+  text: string
+  toolCalls?: ToolCallDelta[]
+  finishReason?: FinishReason
+  usage?: Usage
+  // Set when the output was validated against a response format
+  parsed?: unknown
+  // The choice this is, when requesting more than one
+  index?: number
+}
+
 // TODO cache statistics and log probs etc
-export type CacheGetter = (id: string) => Promise<string[] | null | undefined>
+export type CacheGetter = (
+  id: string
+) => Promise<ModelOutput[] | null | undefined>
 
 export type CacheSetter = (data: {
   id: string
   prompt: RequestData
-  completion: string[]
+  completion: ModelOutput[]
 }) => Promise<unknown>
 
 export class Model {
@@ -102,11 +150,17 @@ export class Model {
       presence_penalty: 0,
       temperature: 0, // OpenAI defaults to 1
       top_p: 1, // OpenAI default, rec. not change unless temperature = 1
+      seed: null,
+      logit_bias: null,
+      response_format: null,
+      continue_last_message: false,
       stop_sequences: null, // OpenAI default
       num_generations: 1,
       max_tokens: null,
+      tools: null,
       stream: false,
       adapter: null,
+      signal: null,
       ...definedValues(opts)
     }
     // Create API client
@@ -122,6 +176,9 @@ export class Model {
       retries: this.config.retries,
       retryDelay: exponentialDelay,
       retryCondition: (error) => {
+        if (error.code === AxiosError.ERR_CANCELED) {
+          return false
+        }
         return (
           axiosRetry.isNetworkError(error) ||
           // axiosRetry.isRetryableError(error) ||
@@ -140,6 +197,8 @@ export class Model {
       customHeaders: {},
       endOfStreamSentinel: null,
       adapter: fetchAdapter,
+      unsupportedOptions: [],
+      isInsertable: false,
       ...definedValues(config),
       // Functions throw a ts error when placed above the spread
       getRoutePath: config.getRoutePath || ((request: RequestData) => null),
@@ -168,16 +227,24 @@ export class Model {
     opts: Required<RequestOptions>
   ): RequestData {
     const ret = {
-      ...requestPrompt,
+      ...this._withJSONInstruction(
+        this._withInsertionFallback(requestPrompt),
+        opts.response_format
+      ),
       model: opts.model,
       identifier: this.config.identifier,
       temperature: opts.temperature,
       top_p: opts.top_p,
       frequency_penalty: opts.frequency_penalty,
       presence_penalty: opts.presence_penalty,
+      seed: opts.seed,
+      logit_bias: opts.logit_bias,
+      response_format: opts.response_format,
+      continue_last_message: opts.continue_last_message,
       stop_sequences: opts.stop_sequences,
       num_generations: opts.num_generations,
       max_tokens: opts.max_tokens,
+      tools: opts.tools,
       stream: opts.stream,
       baseUrl: opts.baseUrl
     }
@@ -190,7 +257,7 @@ export class Model {
   async route(
     requestPrompt: RequestPrompt,
     requestOpts: RequestOptions = {}
-  ): Promise<Result<string, ErrorCode>> {
+  ): Promise<Result<string, WindowAIErrorData>> {
     const { transformForRequest, getRoutePath } = this.config
     const opts: Required<RequestOptions> = {
       ...this.defaultOptions,
@@ -218,6 +285,7 @@ export class Model {
       const response = await this.api.post(modelRoutePath, payload, {
         baseURL: opts.baseUrl,
         timeout: opts.timeout,
+        signal: opts.signal ?? undefined,
         headers: this._getRequestHeaders(opts)
       })
       responseData = response.data
@@ -237,7 +305,7 @@ export class Model {
   async complete(
     requestPrompt: RequestPrompt,
     requestOpts: RequestOptions = {}
-  ): Promise<Result<string[], ErrorCode>> {
+  ): Promise<Result<ModelOutput[], WindowAIErrorData>> {
     const {
       transformForRequest,
       getPath,
@@ -269,6 +337,7 @@ export class Model {
       const response = await this.api.post(getPath(request), payload, {
         baseURL: opts.baseUrl,
         timeout: opts.timeout,
+        signal: opts.signal ?? undefined,
         headers: this._getRequestHeaders(opts)
       })
       responseData = response.data
@@ -298,7 +367,7 @@ export class Model {
   async stream(
     requestPrompt: RequestPrompt,
     requestOpts: RequestOptions = {}
-  ): Promise<Result<ReadableStream<string>, ErrorCode>> {
+  ): Promise<Result<ReadableStream<ModelOutput>, WindowAIErrorData>> {
     const opts: Required<RequestOptions> = {
       ...this.defaultOptions,
       ...definedValues(requestOpts),
@@ -323,6 +392,7 @@ export class Model {
         {
           baseURL: opts.baseUrl,
           timeout: opts.timeout,
+          signal: opts.signal ?? undefined,
           responseType: "stream",
           headers: this._getRequestHeaders(opts)
         }
@@ -346,6 +416,43 @@ export class Model {
     }
   }
 
+  // Providers that can't insert get the suffix as part of the prompt
+  protected _withInsertionFallback(
+    requestPrompt: RequestPrompt
+  ): RequestPrompt {
+    const { prompt, suffix, ...rest } = requestPrompt
+    if (
+      this.config.isInsertable ||
+      prompt === undefined ||
+      suffix === undefined
+    ) {
+      return requestPrompt
+    }
+    return { ...rest, prompt: insertionToPrompt(prompt, suffix) }
+  }
+
+  // Some providers only return JSON if the input asks for it
+  protected _withJSONInstruction(
+    requestPrompt: RequestPrompt,
+    responseFormat: ResponseFormat | null
+  ): RequestPrompt {
+    if (!responseFormat) {
+      return requestPrompt
+    }
+    const instruction = jsonInstruction(responseFormat.schema)
+    const { prompt, messages } = requestPrompt
+    if (messages) {
+      return {
+        ...requestPrompt,
+        messages: [{ role: "system", content: instruction }, ...messages]
+      }
+    }
+    return {
+      ...requestPrompt,
+      prompt: prompt !== undefined ? `${prompt}\n\n${instruction}` : prompt
+    }
+  }
+
   protected _getRequestHeaders(opts: Required<RequestOptions>) {
     const { authPrefix } = this.config
     return {
@@ -358,7 +465,7 @@ export class Model {
 
   private _executeTransform(
     chunkStr: string,
-    transformResponse: (responseData: Record<string, any>) => string[],
+    transformResponse: (responseData: Record<string, any>) => ModelOutput[],
     {
       onEnd,
       onError,
@@ -366,10 +473,16 @@ export class Model {
     }: {
       onEnd: () => void
       onError: (err: Error) => void
-      onResult: (result: string) => void
+      onResult: (result: ModelOutput) => void
     }
   ) {
-    let fullResult = ""
+    // Each choice's deltas are merged separately
+    const fullResults: ModelOutput[] = []
+    const merge = (result: ModelOutput) => {
+      const index = result.index ?? 0
+      const fullResult = fullResults[index] ?? { text: "", index }
+      fullResults[index] = mergeModelOutputs([fullResult, result])
+    }
     // this.log("Batched chunk: ", chunkStr)
     const chunks = parseDataChunks(chunkStr)
     if (chunks.length > 1) {
@@ -382,51 +495,114 @@ export class Model {
           chunkDataRes,
           "Full chunk: ",
           chunkStr,
-          "Running result: ",
-          fullResult
+          "Running results: ",
+          fullResults
         )
-        if (fullResult) {
-          // The last data is empty and just has the finish_reason,
-          // but there might have been data earlier in the chunk
-          onResult(fullResult)
-        }
+        // The last data may just have the finish_reason or usage,
+        // and there might have been data earlier in the chunk
+        fullResults
+          .filter((r) => r.text || r.toolCalls || r.finishReason || r.usage)
+          .forEach(onResult)
         onEnd()
         return
       } else {
         const chunkData = JSON.parse(chunkDataRes)
         const result = transformResponse(chunkData)
-        if (typeof result[0] !== "string") {
+        if (!result[0]) {
           const e = new Error(`Returned empty data: ${chunkDataRes}`)
           this.error(e)
           onError(e)
           return
         } else {
           this.log("Result: ", result)
-          fullResult += result
+          result.forEach(merge)
         }
       }
     }
-    onResult(fullResult)
+    fullResults.forEach(onResult)
   }
 
-  private _handleModelAPIError(error: unknown): Err<ErrorCode> {
+  private _handleModelAPIError(error: unknown): Err<WindowAIErrorData> {
     if (!(error instanceof AxiosError)) {
       const errorStr = `Unknown error: ${error}`
       this.error(errorStr)
       throw new Error(errorStr)
     }
-    // Network errors are like auth errors when interacting with localhost
-    const isNetworkError = error.code === "ERR_NETWORK"
-    if (error.response?.status === 401 || isNetworkError) {
-      return err(ErrorCode.NotAuthenticated)
+    const apiError = parseAxiosError(error, this.config.identifier)
+    if (apiError.code === ErrorCode.ModelRejectedRequest) {
+      this.error(`Unknown Axios error: `, apiError, error.response?.data)
     }
-    if (error.response?.status === 402) {
-      return err(ErrorCode.PaymentRequired)
+    return err(apiError)
+  }
+}
+
+// Concatenates streamed deltas of a single choice
+export function mergeModelOutputs(outputs: ModelOutput[]): ModelOutput {
+  const toolCalls = outputs.flatMap((o) => o.toolCalls ?? [])
+  return {
+    text: outputs.map((o) => o.text).join(""),
+    toolCalls: toolCalls.length ? toolCalls : undefined,
+    // These are only sent once, near the end of the stream
+    finishReason: outputs.reduce<FinishReason | undefined>(
+      (reason, o) => o.finishReason ?? reason,
+      undefined
+    ),
+    usage: outputs.reduce<Usage | undefined>(
+      (usage, o) => o.usage ?? usage,
+      undefined
+    ),
+    index: outputs.find((o) => o.index !== undefined)?.index
+  }
+}
+
+// Parses OpenAI-style `finish_reason`s
+export function parseFinishReason(raw: unknown): FinishReason | undefined {
+  switch (raw) {
+    case "stop":
+    case "stop_sequence":
+    case "eos":
+      return FinishReason.Stop
+    case "length":
+    case "max_tokens":
+      return FinishReason.Length
+    case "tool_calls":
+    case "function_call":
+      return FinishReason.ToolCalls
+    case "content_filter":
+      return FinishReason.ContentFilter
+    default:
+      return undefined
+  }
+}
+
+// Parses OpenAI-style `usage`
+export function parseUsage(raw: any): Usage | undefined {
+  if (
+    typeof raw?.["prompt_tokens"] !== "number" ||
+    typeof raw?.["completion_tokens"] !== "number"
+  ) {
+    return undefined
+  }
+  return {
+    promptTokens: raw["prompt_tokens"],
+    completionTokens: raw["completion_tokens"]
+  }
+}
+
+// Assembles the fragments of each tool call into complete calls
+export function toolCallsFromDeltas(deltas: ToolCallDelta[]): ToolCall[] {
+  const calls: ToolCall[] = []
+  for (const delta of deltas) {
+    const call = calls[delta.index] ?? {
+      id: "",
+      type: "function",
+      function: { name: "", arguments: "" }
     }
-    const errMessage = `${error.response?.status}: ${error}`
-    this.error(
-      `Unknown Axios error: ` + errMessage + "\n" + error.response?.data
-    )
-    throw new Error(ErrorCode.ModelRejectedRequest + ": " + errMessage)
+    call.id = delta.id ?? call.id
+    call.function.name += delta.function?.name ?? ""
+    call.function.arguments += delta.function?.arguments ?? ""
+    calls[delta.index] = call
   }
+  // Remove gaps left by missing indices
+  return calls.filter((c) => !!c)
 }
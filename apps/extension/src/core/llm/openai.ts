@@ -1,7 +1,18 @@
-import { type ChatMessage } from "window.ai"
+import { ModelID, type OutputMessage } from "window.ai"
 
+import {
+  toOpenAIResponseFormat,
+  withContinuation,
+  withImageURLs
+} from "~core/utils/utils"
+
+import type {
+  EmbeddingModelConfig,
+  RequestOptions as EmbeddingRequestOptions
+} from "./embedding-model"
+import { EmbeddingModel } from "./embedding-model"
 import type { ModelConfig, RequestOptions } from "./model"
-import { Model } from "./model"
+import { Model, parseFinishReason, parseUsage } from "./model"
 
 export enum OpenAIModelId {
   Davinci = "text-davinci-003",
@@ -36,6 +47,11 @@ export function init(
           identifier,
           prompt,
           baseUrl,
+          tools,
+          seed,
+          logit_bias,
+          response_format,
+          continue_last_message,
           ...optsToSend
         } = req
         let messages = optsToSend.messages || []
@@ -50,23 +66,82 @@ export function init(
         }
         return {
           ...optsToSend,
-          messages,
+          messages: withImageURLs(
+            withContinuation(messages, continue_last_message)
+          ),
           user: meta.user_identifier ?? undefined,
           stop: stop_sequences ?? undefined,
-          n: num_generations
+          tools: tools ?? undefined,
+          seed: seed ?? undefined,
+          logit_bias: logit_bias ?? undefined,
+          response_format: response_format
+            ? toOpenAIResponseFormat(req.model)
+            : undefined,
+          n: num_generations,
+          // Sends usage in the last chunk when streaming
+          stream_options: optsToSend.stream
+            ? { include_usage: true }
+            : undefined
         }
       },
       transformResponse: (res) => {
         const anyRes = res as any
+        const usage = parseUsage(anyRes["usage"])
+        if (!anyRes["choices"][0]) {
+          // The last streamed chunk may only have usage
+          return usage ? [{ text: "", usage }] : []
+        }
         if ("text" in anyRes["choices"][0]) {
-          return anyRes["choices"].map((c: any) => c["text"])
+          return anyRes["choices"].map((c: any) => ({
+            text: c["text"],
+            index: c["index"],
+            finishReason: parseFinishReason(c["finish_reason"]),
+            usage
+          }))
         }
-        const messages: Partial<ChatMessage>[] = anyRes["choices"].map(
-          (c: any) => c["delta"] || c["message"]
-        )
-        // We default to "" since the "assistant" role is initially sent
-        // with no content
-        return messages.map((m) => m.content || "")
+        return anyRes["choices"].map((c: any) => {
+          const m: Partial<OutputMessage> = c["delta"] || c["message"]
+          return {
+            // We default to "" since the "assistant" role is initially sent
+            // with no content
+            text: m.content || "",
+            index: c["index"],
+            // Streamed deltas carry an index, but full messages do not
+            toolCalls: m.tool_calls?.map((t, index) => ({ index, ...t })),
+            finishReason: parseFinishReason(c["finish_reason"]),
+            usage
+          }
+        })
+      }
+    },
+    opts
+  )
+}
+
+export function initEmbeddings(
+  config: Pick<EmbeddingModelConfig, "debug" | "identifier">,
+  opts: EmbeddingRequestOptions
+): EmbeddingModel {
+  return new EmbeddingModel(
+    {
+      ...config,
+      defaultModel: ModelID.Ada_Embedding_V2,
+      overrideModelParam: (req) => req.model?.split("/")[1] ?? null,
+      defaultBaseUrl: "https://api.openai.com/v1",
+      getPath: () => "/embeddings",
+      transformForRequest: (req, meta) => {
+        const { identifier, baseUrl, ...optsToSend } = req
+        return {
+          ...optsToSend,
+          user: meta.user_identifier ?? undefined
+        }
+      },
+      transformResponse: (res) => {
+        const anyRes = res as any
+        // Sort by index so that embeddings line up with the inputs
+        return [...anyRes["data"]]
+          .sort((a: any, b: any) => a["index"] - b["index"])
+          .map((d: any) => ({ embedding: d["embedding"] }))
       }
     },
     opts
@@ -1,7 +1,7 @@
 import { messagesToPrompt } from "~core/utils/utils"
 
 import type { ModelConfig, RequestOptions } from "./model"
-import { Model } from "./model"
+import { Model, parseFinishReason, parseUsage } from "./model"
 
 export enum TogetherModelId {
   GPT_JT_6B_v1 = "Together-gpt-JT-6B-v1",
@@ -27,6 +27,12 @@ export function init(
     {
       ...config,
       isStreamable: false,
+      unsupportedOptions: [
+        "frequency_penalty",
+        "presence_penalty",
+        "seed",
+        "logit_bias"
+      ],
       defaultBaseUrl: "https://api.together.xyz",
       getPath: () => "/inference",
       overrideModelParam: () => TogetherModelId.GPT_NEOXT_20B_v2,
@@ -46,13 +52,18 @@ export function init(
           temperature,
           top_p,
           stream,
+          tools,
+          seed,
+          logit_bias,
+          response_format,
+          continue_last_message,
           ...optsToSend
         } = req
         const fullPrompt =
           prompt !== undefined
             ? `<human>: ${prompt}`
             : messages
-            ? messagesToPrompt(messages)
+            ? messagesToPrompt(messages, continue_last_message)
             : undefined
         return {
           ...optsToSend,
@@ -66,9 +77,15 @@ export function init(
       },
       transformResponse: (res) => {
         const anyRes = res as any
-        return anyRes["output"]
-          ? anyRes["output"]["choices"].map((c: any) => c["text"])
-          : []
+        if (!anyRes["output"]) {
+          return []
+        }
+        const usage = parseUsage(anyRes["output"]["usage"])
+        return anyRes["output"]["choices"].map((c: any) => ({
+          text: c["text"],
+          finishReason: parseFinishReason(c["finish_reason"]),
+          usage
+        }))
       }
     },
     options
@@ -1,22 +1,24 @@
 import { v4 as uuidv4 } from "uuid"
 import {
-  ErrorCode,
   EventType,
+  type Input,
   ModelID,
   type ModelProviderOptions,
+  type WindowAIErrorData,
   parseModelID
 } from "window.ai"
 
 import { Storage } from "@plasmohq/storage"
+import { useStorage } from "@plasmohq/storage/hook"
 
-import { PortName } from "~core/constants"
-import { Extension } from "~core/extension"
-import { getCaller } from "~core/llm"
+import { getCaller, getEmbeddingCaller } from "~core/llm"
+import { sendEvent } from "~core/utils/events"
 import { type Result, ok } from "~core/utils/result-monad"
 import { getExternalConfigURL } from "~core/utils/utils"
 
 import * as modelRouter from "../model-router"
 import { BaseManager } from "./base"
+import type { OriginData } from "./origin"
 import type { Transaction } from "./transaction"
 
 export enum AuthType {
@@ -27,6 +29,7 @@ export enum AuthType {
 }
 
 const authIndexName = "byAuth"
+const domainConfigsKey = "byDomain"
 
 // TODO add `params` with model-specific params
 export interface Config {
@@ -43,6 +46,7 @@ export interface Config {
 class ConfigManager extends BaseManager<Config> {
   protected defaultConfig: Storage
   protected modelHandlers: Storage
+  protected domainConfigs: Storage
 
   constructor() {
     super("configs", "sync")
@@ -58,6 +62,12 @@ class ConfigManager extends BaseManager<Config> {
       area: "sync"
     })
     this.modelHandlers.setNamespace(`configs-model-handlers-`)
+
+    // For each app domain with its own model, store the id of its config
+    this.domainConfigs = new Storage({
+      area: "sync"
+    })
+    this.domainConfigs.setNamespace(`configs-domains-`)
   }
 
   init(auth: AuthType, modelId?: ModelID): Config {
@@ -79,6 +89,7 @@ class ConfigManager extends BaseManager<Config> {
             ModelID.Claude_V1,
             ModelID.Claude_V1_100k,
             ModelID.Shap_e,
+            ModelID.Ada_Embedding_V2,
             ModelID.Palm_Chat_Bison,
             ModelID.Palm_Code_Chat_Bison
           ]
@@ -139,12 +150,14 @@ class ConfigManager extends BaseManager<Config> {
     const previous = await this.defaultConfig.get("id")
     await this.defaultConfig.set("id", config.id)
     if (previous !== config.id) {
-      Extension.sendToBackground(PortName.Events, {
-        request: {
-          event: EventType.ModelChanged,
-          data: { model: configManager.getModel(config) }
-        }
-      })
+      // Apps with their own model keep it
+      const overridden = Object.keys(await this._getDomainConfigIds())
+      sendEvent(
+        EventType.ModelChanged,
+        { model: configManager.getModel(config) },
+        undefined,
+        overridden
+      )
     }
   }
 
@@ -161,9 +174,12 @@ class ConfigManager extends BaseManager<Config> {
   }
 
   // TODO: allow multiple custom models
-  async forModelWithDefault(rawModel?: string): Promise<Config> {
+  async forModelWithDefault(
+    rawModel?: string,
+    origin?: OriginData
+  ): Promise<Config> {
     if (!rawModel) {
-      return this.getDefault()
+      return (origin && (await this.forOrigin(origin))) || this.getDefault()
     }
     const model = parseModelID(rawModel)
     if (model) {
@@ -173,6 +189,37 @@ class ConfigManager extends BaseManager<Config> {
     return this.getOrInit(AuthType.APIKey)
   }
 
+  // The config the user picked for the origin's app, if any
+  async forOrigin(origin: OriginData): Promise<Config | undefined> {
+    const configId = (await this._getDomainConfigIds())[origin.domain]
+    return configId ? this.get(configId) : undefined
+  }
+
+  // Unsetting the config makes the app use the default
+  async setForDomain(domain: string, config?: Config) {
+    const configIds = await this._getDomainConfigIds()
+    if (config) {
+      await this.save(config)
+      configIds[domain] = config.id
+    } else {
+      delete configIds[domain]
+    }
+    await this.domainConfigs.set(domainConfigsKey, configIds)
+    sendEvent(
+      EventType.ModelChanged,
+      { model: this.getModel(config ?? (await this.getDefault())) },
+      domain
+    )
+  }
+
+  useDomainConfigId(domain: string): string | undefined {
+    const [configIds] = useStorage<Record<string, string> | undefined>({
+      key: domainConfigsKey,
+      instance: this.domainConfigs
+    })
+    return configIds?.[domain]
+  }
+
   // Filtering for `null` looks for configs that don't have any models
   async filter({
     auth,
@@ -220,24 +267,20 @@ class ConfigManager extends BaseManager<Config> {
   }
 
   async getModelCaller(config: Config) {
-    const isOpenRouterAuthed = async () => {
-      const c = await this.forAuthAndModel(AuthType.External)
-      return c ? this.isCredentialed(c) : false
-    }
-
-    const canProxy =
-      config.auth === AuthType.External ||
-      // Only proxy w OpenRouter if user has authed and hasn't set a custom base url
-      (!config.baseUrl && !this.isLocal(config) && (await isOpenRouterAuthed()))
-
+    const canProxy = await this._canProxy(config)
     return getCaller(this.getModel(config), !canProxy)
   }
 
+  async getEmbeddingCaller(config: Config) {
+    const canProxy = await this._canProxy(config)
+    return getEmbeddingCaller(this.getModel(config), !canProxy)
+  }
+
   async predictModel(
     config: Config,
-    txn?: Transaction,
+    txn?: Transaction<Input>,
     shouldStream?: boolean
-  ): Promise<Result<ModelID | string, ErrorCode | string>> {
+  ): Promise<Result<ModelID | string, WindowAIErrorData>> {
     const currentModel = this.getModel(config)
     if (currentModel) {
       return ok(currentModel)
@@ -274,6 +317,27 @@ class ConfigManager extends BaseManager<Config> {
     }
   }
 
+  async _canProxy(config: Config): Promise<boolean> {
+    const isOpenRouterAuthed = async () => {
+      const c = await this.forAuthAndModel(AuthType.External)
+      return c ? this.isCredentialed(c) : false
+    }
+
+    return (
+      config.auth === AuthType.External ||
+      // Only proxy w OpenRouter if user has authed and hasn't set a custom base url
+      (!config.baseUrl && !this.isLocal(config) && (await isOpenRouterAuthed()))
+    )
+  }
+
+  async _getDomainConfigIds(): Promise<Record<string, string>> {
+    return (
+      (await this.domainConfigs.get<Record<string, string>>(
+        domainConfigsKey
+      )) ?? {}
+    )
+  }
+
   async _forModel(modelId: ModelID): Promise<Config> {
     const defaultConfigId = await this.modelHandlers.get(modelId)
     if (defaultConfigId) {
@@ -318,6 +382,8 @@ function defaultAPILabel(model: ModelID): string {
       return "Anthropic: Claude 100k"
     case ModelID.Shap_e:
       return "OpenAI: Shap-E"
+    case ModelID.Ada_Embedding_V2:
+      return "OpenAI: Ada Embeddings v2"
     case ModelID.Palm_Chat_Bison:
       return "Google: PaLM 2 Chat"
     case ModelID.Palm_Code_Chat_Bison:
@@ -331,6 +397,7 @@ function APIKeyURL(model: ModelID): string {
     case ModelID.GPT_3_16k:
     case ModelID.GPT_4:
     case ModelID.GPT_4_32k:
+    case ModelID.Ada_Embedding_V2:
       return "https://platform.openai.com/account/api-keys"
     case ModelID.Together:
       return "https://api.together.xyz/"
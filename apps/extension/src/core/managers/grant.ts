@@ -0,0 +1,113 @@
+import { KeyedLock } from "~core/utils/lock"
+
+import { BaseManager } from "./base"
+
+// What an app can ask to do. Each is granted separately.
+export enum PermissionScope {
+  // Completions and embeddings
+  Text = "text",
+  Media = "media",
+  ProviderUpdate = "provider_update"
+}
+
+export type PermissionDecision = "allow" | "deny"
+
+export interface PermissionGrant {
+  decision: PermissionDecision
+  // Unset grants don't expire
+  expiresAt?: number
+  // How many more requests the grant covers. Unset is unlimited.
+  requestsLeft?: number
+}
+
+export interface Grants {
+  scopes: Partial<Record<PermissionScope, PermissionGrant>>
+  // Grants for requests that name a model, which take precedence over the
+  // grant for their scope
+  models: Record<string, PermissionGrant>
+}
+
+export type GrantTarget = { scope: PermissionScope } | { model: string }
+
+export interface GrantHolder {
+  id: string
+  permissions: Grants
+}
+
+// Stores objects that hold permission grants: origins, and the rules that
+// cover many origins at once
+export abstract class GrantManager<
+  T extends GrantHolder
+> extends BaseManager<T> {
+  private grantLock = new KeyedLock()
+
+  getGrant(holder: T, target: GrantTarget): PermissionGrant | undefined {
+    const { scopes, models } = holder.permissions
+    return "model" in target ? models[target.model] : scopes[target.scope]
+  }
+
+  isActive(grant: PermissionGrant): boolean {
+    return (
+      (grant.expiresAt === undefined || grant.expiresAt > Date.now()) &&
+      (grant.requestsLeft === undefined || grant.requestsLeft > 0)
+    )
+  }
+
+  // Returns a copy of the holder with the grant replaced. Removing the grant
+  // means requests will ask again.
+  withGrant(
+    holder: T,
+    target: GrantTarget,
+    grant: PermissionGrant | undefined
+  ): T {
+    const scopes = { ...holder.permissions.scopes }
+    const models = { ...holder.permissions.models }
+    const grants: Record<string, PermissionGrant | undefined> =
+      "model" in target ? models : scopes
+    const key = "model" in target ? target.model : target.scope
+    if (grant) {
+      grants[key] = grant
+    } else {
+      delete grants[key]
+    }
+    return { ...holder, permissions: { scopes, models } }
+  }
+
+  // Decides a request using the first active grant that covers it, and counts
+  // the request against that grant. Undefined means the user should be asked.
+  // Reads the holder fresh under a lock, so that concurrent requests can't
+  // both spend the last request of a grant.
+  consumeGrant(
+    id: string,
+    scope: PermissionScope,
+    model?: string
+  ): Promise<PermissionDecision | undefined> {
+    return this.grantLock.run(id, async () => {
+      const holder = await this.get(id)
+      if (!holder) {
+        return undefined
+      }
+      const targets: GrantTarget[] = model
+        ? [{ model }, { scope }]
+        : [{ scope }]
+      for (const target of targets) {
+        const grant = this.getGrant(holder, target)
+        if (!grant || !this.isActive(grant)) {
+          continue
+        }
+        if (grant.requestsLeft !== undefined) {
+          const requestsLeft = grant.requestsLeft - 1
+          await this.save(
+            this.withGrant(
+              holder,
+              target,
+              requestsLeft > 0 ? { ...grant, requestsLeft } : undefined
+            )
+          )
+        }
+        return grant.decision
+      }
+      return undefined
+    })
+  }
+}
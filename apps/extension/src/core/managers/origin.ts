@@ -1,16 +1,21 @@
-import { BaseManager } from "./base"
+import { GrantManager, type Grants, PermissionScope } from "./grant"
 
 export interface Origin {
   id: string
   domain: string
   path: string
   title: string
-  permissions: "allow" | "ask"
+  permissions: Grants
 }
 
 export type OriginData = Pick<Origin, "id" | "domain" | "path" | "title">
 
-class OriginManager extends BaseManager<Origin> {
+// Before grants were scoped, one permission covered everything the app did
+type LegacyOrigin = Omit<Origin, "permissions"> & {
+  permissions: "allow" | "ask" | Grants
+}
+
+class OriginManager extends GrantManager<Origin> {
   constructor() {
     super("origins")
   }
@@ -18,8 +23,32 @@ class OriginManager extends BaseManager<Origin> {
   init(data: OriginData): Origin {
     return {
       ...data,
-      permissions: "ask"
+      permissions: { scopes: {}, models: {} }
+    }
+  }
+
+  async _batchFetch(ids: string[]): Promise<Origin[]> {
+    const origins = await super._batchFetch(ids)
+    return origins.map((origin) => origin && this.migrate(origin))
+  }
+
+  useObject(id: string) {
+    const { object, setObject } = super.useObject(id)
+    return { object: object && this.migrate(object), setObject }
+  }
+
+  migrate(origin: LegacyOrigin): Origin {
+    const { permissions } = origin
+    if (typeof permissions !== "string") {
+      return { ...origin, permissions }
+    }
+    const scopes: Grants["scopes"] = {}
+    if (permissions === "allow") {
+      for (const scope of Object.values(PermissionScope)) {
+        scopes[scope] = { decision: "allow" }
+      }
     }
+    return { ...origin, permissions: { scopes, models: {} } }
   }
 
   getData(origin: string, pathName: string, title: string): OriginData {
@@ -35,7 +64,7 @@ class OriginManager extends BaseManager<Origin> {
     return origin.domain + origin.path
   }
 
-  originDisplay(origin: OriginData): string {
+  originDisplay(origin: Pick<OriginData, "domain">): string {
     const url = origin.domain
     const withoutProtocol = url.split("//")[1]
     const withoutWWW = withoutProtocol.replace(/^www\./, "")
@@ -0,0 +1,75 @@
+import type { RequestID } from "window.ai"
+
+import { Storage } from "@plasmohq/storage"
+import { useStorage } from "@plasmohq/storage/hook"
+
+// How many requests can be in flight at once
+export interface QueueLimits {
+  perOrigin: number
+  perProvider: number
+}
+
+export interface QueueEntry {
+  id: RequestID
+  origin: string
+  provider: string
+  priority: number
+  queuedAt: number
+  // Only set while waiting: how many of the origin's requests will be sent
+  // before this one
+  position?: number
+}
+
+export interface QueueSnapshot {
+  running: QueueEntry[]
+  waiting: QueueEntry[]
+}
+
+const DEFAULT_LIMITS: QueueLimits = {
+  perOrigin: 2,
+  perProvider: 4
+}
+
+const EMPTY_SNAPSHOT: QueueSnapshot = { running: [], waiting: [] }
+
+// The background scheduler owns the queue. This stores its limits, and a
+// snapshot of it for the popup.
+class QueueManager {
+  protected limits: Storage
+  protected snapshot: Storage
+
+  constructor() {
+    this.limits = new Storage({ area: "sync" })
+    this.limits.setNamespace("queue-limits-")
+
+    this.snapshot = new Storage({ area: "local" })
+    this.snapshot.setNamespace("queue-snapshot-")
+  }
+
+  async getLimits(): Promise<QueueLimits> {
+    const limits = await this.limits.get<Partial<QueueLimits>>("limits")
+    return { ...DEFAULT_LIMITS, ...limits }
+  }
+
+  async saveSnapshot(snapshot: QueueSnapshot) {
+    await this.snapshot.set("snapshot", snapshot)
+  }
+
+  useLimits() {
+    const [limits, setLimits] = useStorage<QueueLimits>(
+      { key: "limits", instance: this.limits },
+      (v) => ({ ...DEFAULT_LIMITS, ...v })
+    )
+    return { limits, setLimits }
+  }
+
+  useSnapshot(): QueueSnapshot {
+    const [snapshot] = useStorage<QueueSnapshot>(
+      { key: "snapshot", instance: this.snapshot },
+      (v) => v ?? EMPTY_SNAPSHOT
+    )
+    return snapshot
+  }
+}
+
+export const queueManager = new QueueManager()
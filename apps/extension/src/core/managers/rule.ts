@@ -0,0 +1,90 @@
+import { useStorage } from "@plasmohq/storage/hook"
+
+import { GrantManager, type Grants } from "./grant"
+import type { OriginData } from "./origin"
+
+// Grants on an origin only cover its exact URL. Rules cover every page on a
+// domain, or on every domain that matches a wildcard pattern.
+export enum RuleMatch {
+  Domain = "domain",
+  Wildcard = "wildcard"
+}
+
+export interface PermissionRule {
+  id: string
+  match: RuleMatch
+  // The origin for domain rules, e.g. "https://example.com". For wildcard
+  // rules, a hostname where * matches anything, e.g. "*.mycompany.com"
+  pattern: string
+  permissions: Grants
+}
+
+const wildcardIndexName = "wildcards"
+const MAX_WILDCARD_RULES = 100
+
+class RuleManager extends GrantManager<PermissionRule> {
+  constructor() {
+    super("rules")
+  }
+
+  init(match: RuleMatch, pattern: string): PermissionRule {
+    return {
+      id: `${match}:${pattern}`,
+      match,
+      pattern,
+      permissions: { scopes: {}, models: {} }
+    }
+  }
+
+  async save(rule: PermissionRule): Promise<boolean> {
+    const isNew = await super.save(rule)
+    if (isNew && rule.match === RuleMatch.Wildcard) {
+      await this.indexBy(rule, undefined, wildcardIndexName)
+    }
+    return isNew
+  }
+
+  domainId(domain: string): string {
+    return this.init(RuleMatch.Domain, domain).id
+  }
+
+  forDomain(domain: string): Promise<PermissionRule> {
+    return this.getOrInit(this.domainId(domain), RuleMatch.Domain, domain)
+  }
+
+  // The rules that cover the origin, most specific first
+  async forOrigin(origin: OriginData): Promise<PermissionRule[]> {
+    const ids = await this.getIds(MAX_WILDCARD_RULES, 0, wildcardIndexName)
+    const wildcards = (await this._batchFetch(ids))
+      .filter((rule) => rule && this.matches(rule, origin))
+      .sort((a, b) => _literalLength(b.pattern) - _literalLength(a.pattern))
+    return [await this.forDomain(origin.domain), ...wildcards]
+  }
+
+  matches(rule: PermissionRule, origin: OriginData): boolean {
+    if (rule.match === RuleMatch.Domain) {
+      return rule.pattern === origin.domain
+    }
+    const hostname = new URL(origin.domain).hostname
+    const pattern = rule.pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")
+    return new RegExp(`^${pattern}$`).test(hostname)
+  }
+
+  useWildcardIds(): string[] {
+    const [ids] = useStorage<string[]>(
+      { key: wildcardIndexName, instance: this.store },
+      (v) => v ?? []
+    )
+    return ids
+  }
+}
+
+// Longer patterns match fewer hostnames
+function _literalLength(pattern: string): number {
+  return pattern.replace(/\*/g, "").length
+}
+
+export const ruleManager = new RuleManager()
@@ -1,7 +1,18 @@
+import type { EventType, RequestID } from "window.ai"
+
 import { BaseManager } from "./base"
 
+export interface TabListener {
+  // The event type listened to, or null for all
+  event: EventType | null
+  // Origin of the listening page, for events scoped to an origin
+  origin: string
+  frameId: number
+}
+
 export interface Tab {
   id: string
+  listeners: Record<RequestID, TabListener>
 }
 
 class TabManager extends BaseManager<Tab> {
@@ -11,9 +22,21 @@ class TabManager extends BaseManager<Tab> {
 
   init(tabId: number): Tab {
     return {
-      id: tabId.toString()
+      id: tabId.toString(),
+      listeners: {}
     }
   }
+
+  // Override to set listeners on old data
+  async _batchFetch(ids: string[]): Promise<Tab[]> {
+    const tabs = await super._batchFetch(ids)
+    tabs.forEach((tab) => {
+      if (tab && tab.listeners === undefined) {
+        tab.listeners = {}
+      }
+    })
+    return tabs
+  }
 }
 
 export const tabManager = new TabManager()
@@ -1,40 +1,84 @@
 import { v4 as uuidv4 } from "uuid"
 import {
+  type ChatMessage,
   type CompletionOptions,
+  type EmbeddingOptions,
+  type EmbeddingOutput,
   type InferredOutput,
   type Input,
   type ModelID,
   isMessagesInput,
   isPromptInput,
+  isInsertionInput,
   isTextOutput,
   isMediaOutput,
   type ThreeDOptions,
   isCompletionOptions,
-  isMediaHosted
+  isMediaHosted,
+  type ResponseFormat,
+  type Tool,
+  contentToText,
+  isContentPart
 } from "window.ai"
 
+import { imageURL } from "~core/utils/utils"
+
 import { BaseManager } from "./base"
 import type { OriginData } from "./origin"
 import { originManager } from "./origin"
 
+// Embedding requests are stored as transactions alongside completions
+export type EmbeddingInput = { texts: string[] }
+export type TransactionInput = Input | EmbeddingInput
+
+export function isEmbeddingInput(
+  input: TransactionInput
+): input is EmbeddingInput {
+  return "texts" in input
+}
 
-export interface Transaction<TInput = Input> {
+export function isCompletionTransaction(
+  txn: Transaction
+): txn is Transaction<Input> {
+  return !isEmbeddingInput(txn.input)
+}
+
+type TransactionOutput<TInput> = TInput extends EmbeddingInput
+  ? EmbeddingOutput
+  : InferredOutput<TInput>
+
+export interface Transaction<
+  TInput extends TransactionInput = TransactionInput
+> {
   id: string
   timestamp: number
   origin: OriginData
-  input: Input
+  input: TInput
   numOutputs: number
 
   temperature?: number
   maxTokens?: number
   stopSequences?: string[]
+  topP?: number
+  frequencyPenalty?: number
+  presencePenalty?: number
+  seed?: number
+  logitBias?: Record<string, number>
+  tools?: Tool[]
+  responseFormat?: ResponseFormat
+  continueLastMessage?: boolean
+  priority?: number
   model?: ModelID | string
   routedModel?: ModelID | string
+  // Options the routed model doesn't support
+  droppedOptions?: string[]
+  // Why outputs didn't match the response format, for each attempt
+  validationErrors?: string[]
 
   // 3D generation options
   numInferenceSteps?:number
 
-  outputs?: InferredOutput<TInput>[]
+  outputs?: TransactionOutput<TInput>[]
   error?: string
 }
 
@@ -49,7 +93,7 @@ class TransactionManager extends BaseManager<Transaction> {
     input: TInput,
     origin: OriginData,
     options: CompletionOptions<ModelID | string, TInput> | ThreeDOptions<ModelID | string>
-  ): Transaction {
+  ): Transaction<Input> {
     this._validateInput(input)
   
     // Extracting parameters common to all options
@@ -61,12 +105,30 @@ class TransactionManager extends BaseManager<Transaction> {
     let temperature: number | undefined
     let maxTokens: number | undefined
     let stopSequences: string[] | undefined
+    let topP: number | undefined
+    let frequencyPenalty: number | undefined
+    let presencePenalty: number | undefined
+    let seed: number | undefined
+    let logitBias: Record<string, number> | undefined
+    let tools: Tool[] | undefined
+    let responseFormat: ResponseFormat | undefined
+    let continueLastMessage: boolean | undefined
+    let priority: number | undefined
     let numInferenceSteps: number | undefined
 
     if (isCompletionOptions(options)) {
         temperature = options.temperature
         maxTokens = options.maxTokens
         stopSequences = options.stopSequences
+        topP = options.topP
+        frequencyPenalty = options.frequencyPenalty
+        presencePenalty = options.presencePenalty
+        seed = options.seed
+        logitBias = options.logitBias
+        tools = options.tools
+        responseFormat = options.responseFormat
+        continueLastMessage = options.continueLastMessage
+        priority = options.priority
     }
 
     //extracting parameters specific to 3d generation
@@ -84,10 +146,38 @@ class TransactionManager extends BaseManager<Transaction> {
       temperature,
       maxTokens,
       stopSequences,
+      topP,
+      frequencyPenalty,
+      presencePenalty,
+      seed,
+      logitBias,
+      tools,
+      responseFormat,
+      continueLastMessage,
+      priority,
       numInferenceSteps,
     }
 }
 
+  initEmbedding(
+    input: string | string[],
+    origin: OriginData,
+    options: EmbeddingOptions<ModelID | string>
+  ): Transaction<EmbeddingInput> {
+    const texts = typeof input === "string" ? [input] : input
+    if (!texts.length || texts.some((t) => typeof t !== "string")) {
+      throw new Error("Invalid input")
+    }
+    return {
+      id: uuidv4(),
+      origin,
+      timestamp: Date.now(),
+      input: { texts },
+      model: options.model,
+      numOutputs: texts.length
+    }
+  }
+
   
   
 
@@ -109,11 +199,11 @@ class TransactionManager extends BaseManager<Transaction> {
 
     if (isNew) {
       const originData = txn.origin
-      const newOrigin = originManager.init(originData)
-      const origin = await originManager.getOrInit(newOrigin.id, newOrigin)
+      const origin = await originManager.get(originData.id)
       await Promise.all([
-        originManager.save(origin),
-        this.indexBy(txn, origin.id, originIndexName)
+        // Rewriting an existing origin could undo a grant that was just spent
+        origin ?? originManager.save(originManager.init(originData)),
+        this.indexBy(txn, originData.id, originIndexName)
       ])
     }
 
@@ -126,45 +216,153 @@ class TransactionManager extends BaseManager<Transaction> {
   }
 
   formatInput(txn: Transaction): string {
+    if (isEmbeddingInput(txn.input)) {
+      return txn.input.texts.join("\n")
+    }
+    if (isInsertionInput(txn.input)) {
+      return `${txn.input.prompt}[insert]${txn.input.suffix}`
+    }
     if ("prompt" in txn.input) {
       return txn.input.prompt
     }
-    return txn.input.messages.map((m) => `${m.role}: ${m.content}`).join("\n")
+    return txn.input.messages.map((m) => this._formatMessage(m)).join("\n")
   }
 
   formatOutput(txn: Transaction): string | undefined {
     if (!txn.outputs) {
       return undefined
     }
+    if (!isCompletionTransaction(txn)) {
+      return `${txn.outputs.length} embeddings`
+    }
     // TODO: handle previews for media outputs, when implemented
     return txn.outputs
       .map((t) =>
         isMediaOutput(t) ? (isMediaHosted(t) ? t.url : "Media currently not available locally.") : 
-        isTextOutput(t) ? t.text : `${t.message.role}: ${t.message.content}`
+        isTextOutput(t) ? t.text : this._formatMessage(t.message)
       )
       .join("\n")
   }
 
+  formatUsage(txn: Transaction): string | undefined {
+    // Every output has the usage for the whole request
+    const usage = (txn.outputs || [])
+      .map((o) => ("usage" in o ? o.usage : undefined))
+      .find((u) => !!u)
+    if (!usage) {
+      return undefined
+    }
+    return `${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens`
+  }
+
+  formatFinishReasons(txn: Transaction): string | undefined {
+    const reasons = (txn.outputs || []).flatMap((o) =>
+      "finishReason" in o && o.finishReason ? [o.finishReason] : []
+    )
+    return reasons.length ? reasons.join(", ") : undefined
+  }
+
+  // URLs of the images in the input, including data URLs for base64 images
+  getInputImages(txn: Transaction): string[] {
+    if (isEmbeddingInput(txn.input) || !isMessagesInput(txn.input)) {
+      return []
+    }
+    return txn.input.messages.flatMap((m) =>
+      typeof m.content === "string"
+        ? []
+        : m.content.flatMap((part) => imageURL(part) ?? [])
+    )
+  }
+
   formatJSON(txn: Transaction) {
-    const { input, temperature, maxTokens, stopSequences, model, numOutputs } =
-      txn
+    const {
+      temperature,
+      maxTokens,
+      stopSequences,
+      topP,
+      frequencyPenalty,
+      presencePenalty,
+      seed,
+      logitBias,
+      tools,
+      responseFormat,
+      continueLastMessage,
+      model,
+      numOutputs
+    } = txn
     return {
-      input,
+      input: this._withoutImageData(txn.input),
       temperature,
       maxTokens,
       stopSequences,
+      topP,
+      frequencyPenalty,
+      presencePenalty,
+      seed,
+      logitBias,
+      tools,
+      responseFormat,
+      continueLastMessage,
       model,
       numOutputs
     }
   }
 
+  _formatMessage(message: ChatMessage): string {
+    const toolCalls = (message.tool_calls || []).map(
+      (c) => `${c.function.name}(${c.function.arguments})`
+    )
+    return [
+      `${message.role}: ${contentToText(message.content)}`,
+      ...toolCalls
+    ].join("\n")
+  }
+
+  // Base64 images are too long to show
+  _withoutImageData(input: TransactionInput): TransactionInput {
+    if (isEmbeddingInput(input) || !isMessagesInput(input)) {
+      return input
+    }
+    const messages = input.messages.map((m) =>
+      typeof m.content === "string"
+        ? m
+        : {
+            ...m,
+            content: m.content.map((part) =>
+              part.type === "image_data"
+                ? {
+                    ...part,
+                    image_data: { ...part.image_data, data: "<base64>" }
+                  }
+                : part
+            )
+          }
+    )
+    return { ...input, messages }
+  }
+
   _validateInput(input: Input): void {
     if (
       typeof input !== "object" ||
-      (!isPromptInput(input) && !isMessagesInput(input))
+      (!isPromptInput(input) &&
+        !isInsertionInput(input) &&
+        !isMessagesInput(input))
     ) {
       throw new Error("Invalid input")
     }
+    if (
+      isMessagesInput(input) &&
+      !input.messages.every(
+        (m) =>
+          typeof m.content === "string" ||
+          (Array.isArray(m.content) && m.content.every(isContentPart))
+      )
+    ) {
+      throw new Error("Invalid message content")
+    }
+    if ("suffix" in input && typeof input.suffix !== "string") {
+      throw new Error("Invalid suffix")
+    }
   }
 }
 
@@ -0,0 +1,135 @@
+import { ErrorCode } from "window.ai"
+
+import { Storage } from "@plasmohq/storage"
+
+import { isErr, isOk, ok } from "~core/utils/result-monad"
+
+import type { Transaction } from "./transaction"
+import { type OriginLimits, usageManager } from "./usage"
+
+jest.mock("./transaction", () => ({
+  isEmbeddingInput: () => false,
+  transactionManager: {
+    formatInput: (txn: Transaction) =>
+      "prompt" in txn.input ? txn.input.prompt : "",
+    formatOutput: () => undefined,
+    getRoutedModel: () => "openai/gpt-3.5-turbo"
+  }
+}))
+// A dollar per thousand tokens
+jest.mock("~core/model-registry", () => ({
+  estimateCost: (_model: string, usage: { promptTokens: number }) =>
+    usage.promptTokens / 1000
+}))
+
+const limits = new Storage({ area: "local" })
+limits.setNamespace("limits-")
+
+let domainCount = 0
+
+// Each test gets a domain without any usage yet
+async function withLimits(originLimits: OriginLimits) {
+  const domain = `app${domainCount++}.com`
+  await limits.set(domain, originLimits)
+  return domain
+}
+
+// 400 characters, so 100 tokens of input
+function transaction(maxTokens?: number) {
+  return {
+    input: { prompt: "a".repeat(400) },
+    maxTokens,
+    numOutputs: 2
+  } as Transaction
+}
+
+describe("usageManager.checkLimits", () => {
+  it("reserves the input and the most output the request allows", async () => {
+    const domain = await withLimits({})
+
+    const result = await usageManager.checkLimits(domain, transaction(50))
+    expect(result).toEqual(ok({ tokens: 200, dollars: 0.1 }))
+
+    const usage = await usageManager.get(domain)
+    expect(usage.tokensToday).toBe(200)
+    expect(usage.dollarsThisMonth).toBe(0.1)
+    expect(usage.recentRequests).toHaveLength(1)
+  })
+
+  it("counts the reservation against the daily tokens", async () => {
+    const domain = await withLimits({ tokensPerDay: 150 })
+
+    const result = await usageManager.checkLimits(domain, transaction(50))
+    expect(isErr(result)).toBe(true)
+    expect((await usageManager.get(domain)).tokensToday).toBe(0)
+  })
+
+  it("counts the reservation against the monthly spending", async () => {
+    const domain = await withLimits({ dollarsPerMonth: 0.15 })
+
+    expect(isOk(await usageManager.checkLimits(domain, transaction()))).toBe(
+      true
+    )
+    expect(isOk(await usageManager.checkLimits(domain, transaction()))).toBe(
+      false
+    )
+  })
+
+  it("rejects requests over the per-minute limit with when to retry", async () => {
+    const domain = await withLimits({ requestsPerMinute: 2 })
+
+    for (let i = 0; i < 2; i++) {
+      expect(isOk(await usageManager.checkLimits(domain, transaction()))).toBe(
+        true
+      )
+    }
+    const result = await usageManager.checkLimits(domain, transaction())
+    if (!isErr(result)) {
+      throw new Error("Expected the limit to be reached")
+    }
+    expect(result.error.code).toBe(ErrorCode.QuotaExceeded)
+    expect(result.error.retryAfter).toBeGreaterThan(0)
+    expect(result.error.retryAfter).toBeLessThanOrEqual(60)
+  })
+
+  it("checks a domain's concurrent requests one at a time", async () => {
+    const domain = await withLimits({ tokensPerDay: 250 })
+
+    const results = await Promise.all(
+      [0, 1, 2].map(() => usageManager.checkLimits(domain, transaction()))
+    )
+    expect(results.map(isOk)).toEqual([true, true, false])
+  })
+})
+
+describe("usageManager.release", () => {
+  it("gives back a request's reservation", async () => {
+    const domain = await withLimits({})
+    const result = await usageManager.checkLimits(domain, transaction(50))
+    if (!isOk(result)) {
+      throw new Error("Expected the request to fit")
+    }
+
+    await usageManager.release(domain, result.data)
+    const usage = await usageManager.get(domain)
+    expect(usage.tokensToday).toBe(0)
+    expect(usage.dollarsThisMonth).toBe(0)
+  })
+})
+
+describe("usageManager.record", () => {
+  it("replaces the reservation with what the request used", async () => {
+    const domain = await withLimits({})
+    const txn = transaction(50)
+    const result = await usageManager.checkLimits(domain, txn)
+    if (!isOk(result)) {
+      throw new Error("Expected the request to fit")
+    }
+
+    txn.outputs = [
+      { text: "", usage: { promptTokens: 100, completionTokens: 20 } }
+    ]
+    await usageManager.record(domain, txn, result.data)
+    expect((await usageManager.get(domain)).tokensToday).toBe(120)
+  })
+})
@@ -0,0 +1,233 @@
+import { ErrorCode, type Usage, type WindowAIErrorData } from "window.ai"
+
+import { Storage } from "@plasmohq/storage"
+import { useStorage } from "@plasmohq/storage/hook"
+
+import { estimateCost } from "~core/model-registry"
+import { KeyedLock } from "~core/utils/lock"
+import { type Result, err, ok } from "~core/utils/result-monad"
+
+import {
+  type Transaction,
+  isEmbeddingInput,
+  transactionManager
+} from "./transaction"
+
+// Caps on what the app can use, to protect the user's API keys. They apply
+// to every page on the app's domain. Unset limits aren't enforced.
+export interface OriginLimits {
+  requestsPerMinute?: number
+  tokensPerDay?: number
+  // Estimated from the models' list prices
+  dollarsPerMonth?: number
+}
+
+// What a domain has used in the current minute, day and month
+export interface OriginUsage {
+  // Timestamps of the requests in the last minute
+  recentRequests: number[]
+  day: string
+  tokensToday: number
+  month: string
+  dollarsThisMonth: number
+}
+
+// Counted against the limits while a request runs, and replaced with what
+// it actually used when it finishes
+export interface UsageReservation {
+  tokens: number
+  dollars: number
+}
+
+const MINUTE_MS = 60 * 1000
+// Rough average for English text, when the provider doesn't report usage
+const CHARS_PER_TOKEN = 4
+
+class UsageManager {
+  protected store: Storage
+  protected limits: Storage
+  // Checks and updates of each domain's usage mustn't interleave
+  private lock = new KeyedLock()
+
+  constructor() {
+    this.store = new Storage({ area: "local" })
+    this.store.setNamespace("usage-")
+
+    this.limits = new Storage({ area: "local" })
+    this.limits.setNamespace("limits-")
+  }
+
+  async get(domain: string): Promise<OriginUsage> {
+    return this._current(await this.store.get<OriginUsage>(domain))
+  }
+
+  async getLimits(domain: string): Promise<OriginLimits> {
+    return (await this.limits.get<OriginLimits>(domain)) ?? {}
+  }
+
+  // Reserves the request's estimated usage if it fits in the domain's limits
+  checkLimits(
+    domain: string,
+    txn: Transaction
+  ): Promise<Result<UsageReservation, WindowAIErrorData>> {
+    return this.lock.run(domain, async () => {
+      const [limits, usage] = await Promise.all([
+        this.getLimits(domain),
+        this.get(domain)
+      ])
+      const now = Date.now()
+      const reservation = this._measure(txn, this._estimateRequest(txn))
+
+      if (
+        limits.requestsPerMinute !== undefined &&
+        usage.recentRequests.length >= limits.requestsPerMinute
+      ) {
+        const oldest = usage.recentRequests[0] ?? now
+        return _quotaErr(
+          "Requests per minute",
+          (oldest + MINUTE_MS - now) / 1000
+        )
+      }
+      if (
+        limits.tokensPerDay !== undefined &&
+        usage.tokensToday + reservation.tokens > limits.tokensPerDay
+      ) {
+        const tomorrow = new Date(now).setHours(24, 0, 0, 0)
+        return _quotaErr("Tokens per day", (tomorrow - now) / 1000)
+      }
+      if (
+        limits.dollarsPerMonth !== undefined &&
+        usage.dollarsThisMonth + reservation.dollars > limits.dollarsPerMonth
+      ) {
+        const date = new Date(now)
+        const nextMonth = new Date(date.getFullYear(), date.getMonth() + 1)
+        return _quotaErr(
+          "Spending per month",
+          (nextMonth.getTime() - now) / 1000
+        )
+      }
+
+      usage.recentRequests.push(now)
+      usage.tokensToday += reservation.tokens
+      usage.dollarsThisMonth += reservation.dollars
+      await this.store.set(domain, usage)
+      return ok(reservation)
+    })
+  }
+
+  // Replaces the reservation with what the finished request used
+  record(domain: string, txn: Transaction, reservation: UsageReservation) {
+    const used = this._measure(txn, this.estimateUsage(txn))
+    return this._adjust(domain, {
+      tokens: used.tokens - reservation.tokens,
+      dollars: used.dollars - reservation.dollars
+    })
+  }
+
+  // Gives back the reservation of a request that was never sent
+  release(domain: string, reservation: UsageReservation) {
+    return this._adjust(domain, {
+      tokens: -reservation.tokens,
+      dollars: -reservation.dollars
+    })
+  }
+
+  estimateUsage(txn: Transaction): Usage {
+    if (isEmbeddingInput(txn.input)) {
+      return {
+        promptTokens: _estimateTokens(txn.input.texts.join("")),
+        completionTokens: 0
+      }
+    }
+    const reported = (txn.outputs ?? [])
+      .map((o) => ("usage" in o ? o.usage : undefined))
+      .find((u) => u !== undefined)
+    if (reported) {
+      return reported
+    }
+    return {
+      promptTokens: _estimateTokens(transactionManager.formatInput(txn)),
+      completionTokens: _estimateTokens(
+        transactionManager.formatOutput(txn) ?? ""
+      )
+    }
+  }
+
+  useUsage(domain: string): OriginUsage {
+    const [usage] = useStorage<OriginUsage | undefined>({
+      key: domain,
+      instance: this.store
+    })
+    return this._current(usage)
+  }
+
+  useLimits(domain: string) {
+    const [limits, setLimits] = useStorage<OriginLimits>(
+      { key: domain, instance: this.limits },
+      (v) => v ?? {}
+    )
+    return { limits, setLimits }
+  }
+
+  _adjust(domain: string, delta: UsageReservation) {
+    return this.lock.run(domain, async () => {
+      const usage = await this.get(domain)
+      usage.tokensToday = Math.max(0, usage.tokensToday + delta.tokens)
+      usage.dollarsThisMonth = Math.max(
+        0,
+        usage.dollarsThisMonth + delta.dollars
+      )
+      await this.store.set(domain, usage)
+    })
+  }
+
+  _measure(txn: Transaction, usage: Usage): UsageReservation {
+    const model = transactionManager.getRoutedModel(txn)
+    return {
+      tokens: usage.promptTokens + usage.completionTokens,
+      dollars: estimateCost(model, usage, txn.numOutputs)
+    }
+  }
+
+  // Before the request is sent: its input, and as much output as it allows
+  _estimateRequest(txn: Transaction): Usage {
+    return {
+      promptTokens: _estimateTokens(transactionManager.formatInput(txn)),
+      completionTokens: (txn.maxTokens ?? 0) * txn.numOutputs
+    }
+  }
+
+  // Resets the counts of past minutes, days and months
+  _current(usage?: OriginUsage): OriginUsage {
+    const now = new Date()
+    const day = now.toDateString()
+    const month = `${now.getFullYear()}-${now.getMonth() + 1}`
+    const recentRequests = (usage?.recentRequests ?? []).filter(
+      (t) => t > now.getTime() - MINUTE_MS
+    )
+    return {
+      recentRequests,
+      day,
+      tokensToday: usage?.day === day ? usage.tokensToday : 0,
+      month,
+      dollarsThisMonth: usage?.month === month ? usage.dollarsThisMonth : 0
+    }
+  }
+}
+
+export const usageManager = new UsageManager()
+
+function _estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+function _quotaErr(
+  limit: string,
+  retryAfter: number
+): Result<never, WindowAIErrorData> {
+  return err({
+    code: ErrorCode.QuotaExceeded,
+    message: `${limit} limit for this app reached`,
+    retryAfter: Math.max(0, Math.ceil(retryAfter))
+  })
+}
@@ -3,8 +3,14 @@ import type { AxiosInstance, AxiosRequestConfig } from "axios"
 import axios, { AxiosError } from "axios"
 import axiosRetry, { exponentialDelay } from "axios-retry"
 import objectHash from "object-hash"
-import { ErrorCode, MediaExtension, type MediaOutput } from "window.ai"
-
+import {
+  ErrorCode,
+  MediaExtension,
+  type MediaOutput,
+  type WindowAIErrorData
+} from "window.ai"
+
+import { parseAxiosError } from "~core/utils/errors"
 import { type Err, type Result, err, ok } from "~core/utils/result-monad"
 import { definedValues } from "~core/utils/utils"
 
@@ -40,6 +46,7 @@ export interface RequestOptions {
   timeout?: number
   user_identifier?: string | null
   adapter?: AxiosRequestConfig["adapter"] | null
+  signal?: AbortSignal | null
 }
 
 type RequestPrompt = { prompt: string }
@@ -48,7 +55,7 @@ type RequestPrompt = { prompt: string }
 
 export type RequestData = Omit<
   Required<RequestOptions>,
-  "user_identifier" | "timeout" | "apiKey" | "origin" | "adapter" // These do not affect output of the model
+  "user_identifier" | "timeout" | "apiKey" | "origin" | "adapter" | "signal" // These do not affect output of the model
 > &
   Pick<Required<MediaModelConfig>, "identifier"> & // To distinguish btw providers with same-name models
   RequestPrompt
@@ -74,6 +81,7 @@ export class MediaModel {
       num_inference_steps: 32,
       extension: null,
       adapter: null,
+      signal: null,
       ...definedValues(opts)
     }
     // Create API client
@@ -89,6 +97,9 @@ export class MediaModel {
       retries: this.config.retries,
       retryDelay: exponentialDelay,
       retryCondition: (error) => {
+        if (error.code === AxiosError.ERR_CANCELED) {
+          return false
+        }
         return (
           axiosRetry.isNetworkError(error) ||
           // axiosRetry.isRetryableError(error) ||
@@ -149,7 +160,7 @@ export class MediaModel {
   async generate(
     requestPrompt: RequestPrompt,
     requestOpts: RequestOptions = {}
-  ): Promise<Result<MediaOutput[], ErrorCode>> {
+  ): Promise<Result<MediaOutput[], WindowAIErrorData>> {
     const { transformForRequest, getPath, transformResponse } = this.config
     const opts: Required<RequestOptions> = {
       ...this.defaultOptions,
@@ -167,6 +178,7 @@ export class MediaModel {
       const response = await this.api.post(getPath(request), payload, {
         baseURL: opts.baseUrl,
         timeout: opts.timeout,
+        signal: opts.signal ?? undefined,
         headers: this._getRequestHeaders(opts)
       })
       responseData = response.data
@@ -194,25 +206,16 @@ export class MediaModel {
       "HTTP-Referer": opts.origin
     }
   }
-  // TODO: Duplicated from llm/model.ts, abstract out to a common place
-  private _handleModelAPIError(error: unknown): Err<ErrorCode> {
+  private _handleModelAPIError(error: unknown): Err<WindowAIErrorData> {
     if (!(error instanceof AxiosError)) {
       const errorStr = `Unknown error: ${error}`
       this.error(errorStr)
       throw new Error(errorStr)
     }
-    // Network errors are like auth errors when interacting with localhost
-    const isNetworkError = error.code === "ERR_NETWORK"
-    if (error.response?.status === 401 || isNetworkError) {
-      return err(ErrorCode.NotAuthenticated)
-    }
-    if (error.response?.status === 402) {
-      return err(ErrorCode.PaymentRequired)
+    const apiError = parseAxiosError(error, this.config.identifier)
+    if (apiError.code === ErrorCode.ModelRejectedRequest) {
+      this.error(`Unknown Axios error: `, apiError, error.response?.data)
     }
-    const errMessage = `${error.response?.status}: ${error}`
-    this.error(
-      `Unknown Axios error: ` + errMessage + "\n" + error.response?.data
-    )
-    throw new Error(ErrorCode.ModelRejectedRequest + ": " + errMessage)
+    return err(apiError)
   }
 }
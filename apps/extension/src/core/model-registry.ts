@@ -0,0 +1,161 @@
+import {
+  ModelID,
+  type ModelInfo,
+  ModelInputType,
+  type Usage,
+  parseModelID
+} from "window.ai"
+
+import { AuthType, type Config, configManager } from "./managers/config"
+import { getMediaCaller } from "./media"
+import { isOk } from "./utils/result-monad"
+
+type ModelMetadata = Pick<ModelInfo, "contextWindow" | "inputTypes">
+
+const textInputTypes = [ModelInputType.Prompt, ModelInputType.Messages]
+
+// Keep in sync with ModelID
+const modelMetadata: Record<ModelID, ModelMetadata> = {
+  [ModelID.GPT_3]: { contextWindow: 4096, inputTypes: textInputTypes },
+  [ModelID.GPT_3_16k]: { contextWindow: 16384, inputTypes: textInputTypes },
+  [ModelID.GPT_4]: { contextWindow: 8192, inputTypes: textInputTypes },
+  [ModelID.GPT_4_32k]: { contextWindow: 32768, inputTypes: textInputTypes },
+  [ModelID.Claude_Instant_V1]: {
+    contextWindow: 9000,
+    inputTypes: textInputTypes
+  },
+  [ModelID.Claude_Instant_V1_100k]: {
+    contextWindow: 100000,
+    inputTypes: textInputTypes
+  },
+  [ModelID.Claude_V1]: { contextWindow: 9000, inputTypes: textInputTypes },
+  [ModelID.Claude_V1_100k]: {
+    contextWindow: 100000,
+    inputTypes: textInputTypes
+  },
+  [ModelID.Palm_Chat_Bison]: {
+    contextWindow: 8192,
+    inputTypes: textInputTypes
+  },
+  [ModelID.Palm_Code_Chat_Bison]: {
+    contextWindow: 8192,
+    inputTypes: textInputTypes
+  },
+  [ModelID.Together]: { contextWindow: 2048, inputTypes: textInputTypes },
+  [ModelID.Cohere]: { contextWindow: 4096, inputTypes: textInputTypes },
+  [ModelID.Shap_e]: { inputTypes: [ModelInputType.Media] },
+  [ModelID.Ada_Embedding_V2]: {
+    contextWindow: 8191,
+    inputTypes: [ModelInputType.Embedding]
+  }
+}
+
+// Approximate list prices in dollars per million tokens, for estimating what
+// an app spends. Models that aren't listed, like local ones, count as free.
+const modelPricing: Partial<
+  Record<ModelID, { prompt: number; completion: number }>
+> = {
+  [ModelID.GPT_3]: { prompt: 1.5, completion: 2 },
+  [ModelID.GPT_3_16k]: { prompt: 3, completion: 4 },
+  [ModelID.GPT_4]: { prompt: 30, completion: 60 },
+  [ModelID.GPT_4_32k]: { prompt: 60, completion: 120 },
+  [ModelID.Claude_Instant_V1]: { prompt: 1.63, completion: 5.51 },
+  [ModelID.Claude_Instant_V1_100k]: { prompt: 1.63, completion: 5.51 },
+  [ModelID.Claude_V1]: { prompt: 11.02, completion: 32.68 },
+  [ModelID.Claude_V1_100k]: { prompt: 11.02, completion: 32.68 },
+  [ModelID.Palm_Chat_Bison]: { prompt: 2, completion: 2 },
+  [ModelID.Palm_Code_Chat_Bison]: { prompt: 2, completion: 2 },
+  [ModelID.Together]: { prompt: 0.2, completion: 0.2 },
+  [ModelID.Cohere]: { prompt: 15, completion: 15 },
+  [ModelID.Ada_Embedding_V2]: { prompt: 0.1, completion: 0 }
+}
+
+// Media models are priced per generation
+const MEDIA_GENERATION_PRICE = 0.01
+
+export function estimateCost(
+  model: string | undefined,
+  usage: Usage,
+  generations = 1
+): number {
+  const id = model && parseModelID(model)
+  if (!id) {
+    return 0
+  }
+  if (modelMetadata[id].inputTypes.includes(ModelInputType.Media)) {
+    return MEDIA_GENERATION_PRICE * generations
+  }
+  const price = modelPricing[id]
+  if (!price) {
+    return 0
+  }
+  return (
+    (usage.promptTokens * price.prompt +
+      usage.completionTokens * price.completion) /
+    1_000_000
+  )
+}
+
+export async function listModels(): Promise<ModelInfo[]> {
+  const models = await Promise.all([
+    ...Object.values(ModelID).map(getModelInfo),
+    getLocalModelInfo()
+  ])
+  return models.filter((m): m is ModelInfo => m !== undefined)
+}
+
+// Returns undefined if the user's config for the model can't serve it
+export async function getModelInfo(
+  model: ModelID
+): Promise<ModelInfo | undefined> {
+  const config = await configManager.forModelWithDefault(model)
+  const metadata = modelMetadata[model]
+  const caller = await _getCaller(config, model, metadata.inputTypes)
+  if (!caller) {
+    return undefined
+  }
+  return {
+    ...metadata,
+    id: model,
+    provider: caller.provider,
+    canStream: caller.canStream,
+    isConfigured: configManager.isCredentialed(config)
+  }
+}
+
+// The local model is the only one whose ID isn't known ahead of time
+async function getLocalModelInfo(): Promise<ModelInfo | undefined> {
+  const config = await configManager.forAuthAndModel(AuthType.APIKey)
+  if (!config) {
+    return undefined
+  }
+  const caller = await configManager.getModelCaller(config)
+  const model = await configManager.predictModel(config)
+  return {
+    id: isOk(model) ? model.data : "local",
+    provider: caller.config.identifier,
+    canStream: caller.config.isStreamable,
+    inputTypes: textInputTypes,
+    isConfigured: configManager.isCredentialed(config)
+  }
+}
+
+async function _getCaller(
+  config: Config,
+  model: ModelID,
+  inputTypes: ModelInputType[]
+): Promise<Pick<ModelInfo, "provider" | "canStream"> | undefined> {
+  if (inputTypes.includes(ModelInputType.Media)) {
+    const caller = getMediaCaller(model)
+    return { provider: caller.config.identifier, canStream: false }
+  }
+  if (inputTypes.includes(ModelInputType.Embedding)) {
+    const caller = await configManager.getEmbeddingCaller(config)
+    return caller && { provider: caller.config.identifier, canStream: false }
+  }
+  const caller = await configManager.getModelCaller(config)
+  return {
+    provider: caller.config.identifier,
+    canStream: caller.config.isStreamable
+  }
+}
@@ -1,20 +1,31 @@
-import { ErrorCode, type ModelID } from "window.ai"
+import {
+  type ChatMessage,
+  type Input,
+  type ModelID,
+  type Usage,
+  type WindowAIErrorData,
+  contentToText,
+  isInsertionInput,
+  isMessagesInput
+} from "window.ai"
 
 import type { CompletionRequest } from "./constants"
+import type { Model, ModelOutput, RequestOptions } from "./llm/model"
 import { type Config, configManager } from "./managers/config"
 import { originManager } from "./managers/origin"
 import type { Transaction } from "./managers/transaction"
-import { type Result, unknownErr, unwrap } from "./utils/result-monad"
+import { parseJSON } from "./utils/json-schema"
+import { type Result, isOk, unknownErr } from "./utils/result-monad"
 import { ok } from "./utils/result-monad"
-import { log } from "./utils/utils"
+import { insertionToPrompt, log } from "./utils/utils"
 
 export const NO_TXN_REFERRER = "__no_txn_origin__"
 
 export async function route(
   config: Config,
-  txn?: Transaction,
+  txn?: Transaction<Input>,
   shouldStream?: boolean
-): Promise<Result<ModelID | string, ErrorCode | string>> {
+): Promise<Result<ModelID | string, WindowAIErrorData>> {
   const caller = await configManager.getModelCaller(config)
 
   const input = txn?.input || { prompt: "" }
@@ -27,7 +38,15 @@ export async function route(
       max_tokens: txn?.maxTokens,
       temperature: txn?.temperature,
       stop_sequences: txn?.stopSequences,
-      num_generations: txn?.numOutputs
+      top_p: txn?.topP,
+      frequency_penalty: txn?.frequencyPenalty,
+      presence_penalty: txn?.presencePenalty,
+      seed: txn?.seed,
+      logit_bias: txn?.logitBias,
+      response_format: txn?.responseFormat,
+      continue_last_message: txn?.continueLastMessage,
+      num_generations: txn?.numOutputs,
+      tools: txn?.tools
     })
     return result
   } catch (error) {
@@ -37,8 +56,9 @@ export async function route(
 
 export async function complete(
   config: Config,
-  txn: Transaction
-): Promise<Result<string[], ErrorCode | string>> {
+  txn: Transaction<Input>,
+  signal?: AbortSignal
+): Promise<Result<ModelOutput[], WindowAIErrorData>> {
   const caller = await configManager.getModelCaller(config)
   const model = txn.routedModel
 
@@ -52,22 +72,182 @@ export async function complete(
       max_tokens: txn.maxTokens,
       temperature: txn.temperature,
       stop_sequences: txn.stopSequences,
-      num_generations: txn.numOutputs
+      top_p: txn.topP,
+      frequency_penalty: txn.frequencyPenalty,
+      presence_penalty: txn.presencePenalty,
+      seed: txn.seed,
+      logit_bias: txn.logitBias,
+      response_format: txn.responseFormat,
+      continue_last_message: txn.continueLastMessage,
+      num_generations: txn.numOutputs,
+      tools: txn.tools,
+      signal
     })
-    return result
+    return isOk(result)
+      ? ok(result.data.map((output) => withPrefill(caller, txn, output)))
+      : result
   } catch (error) {
     return unknownErr(error)
   }
 }
 
+const droppableOptions: Record<string, keyof RequestOptions> = {
+  topP: "top_p",
+  frequencyPenalty: "frequency_penalty",
+  presencePenalty: "presence_penalty",
+  seed: "seed",
+  logitBias: "logit_bias",
+  continueLastMessage: "continue_last_message"
+}
+
+// Returns the options set on the transaction that the model ignores
+export async function getDroppedOptions(
+  config: Config,
+  txn: Transaction<Input>
+): Promise<string[]> {
+  const caller = await configManager.getModelCaller(config)
+  return Object.entries(droppableOptions)
+    .filter(
+      ([option, param]) =>
+        txn[option as keyof Transaction] !== undefined &&
+        caller.config.unsupportedOptions.includes(param)
+    )
+    .map(([option]) => option)
+}
+
+// The partial assistant message that the model is continuing, if any. Models
+// that don't support continuing reply to the message instead.
+export function getPrefill(
+  caller: Model,
+  txn: Transaction<Input>
+): string | undefined {
+  if (
+    !txn.continueLastMessage ||
+    caller.config.unsupportedOptions.includes("continue_last_message") ||
+    !isMessagesInput(txn.input)
+  ) {
+    return undefined
+  }
+  const last = txn.input.messages[txn.input.messages.length - 1]
+  return last?.role === "assistant" ? contentToText(last.content) : undefined
+}
+
+// Combines the continued message with the model's output
+export function withPrefill(
+  caller: Model,
+  txn: Transaction<Input>,
+  output: ModelOutput
+): ModelOutput {
+  const prefill = getPrefill(caller, txn)
+  return prefill ? { ...output, text: prefill + output.text } : output
+}
+
+const MAX_JSON_RETRIES = 2
+
+// Completes the transaction, re-prompting the model for each output that
+// doesn't match the response format. Records the errors on the transaction,
+// and an output that's still invalid is returned without `parsed`.
+export async function completeJSON(
+  config: Config,
+  txn: Transaction<Input>,
+  signal?: AbortSignal
+): Promise<Result<ModelOutput[], WindowAIErrorData>> {
+  const result = await complete(config, txn, signal)
+  if (!isOk(result)) {
+    return result
+  }
+  const caller = await configManager.getModelCaller(config)
+  // The retries are billed too, so they count towards the usage
+  let usage = result.data[0]?.usage
+  const outputs: ModelOutput[] = []
+  for (let output of result.data) {
+    let parsed = parseJSON(output.text, txn.responseFormat?.schema)
+    for (let i = 0; !isOk(parsed); i++) {
+      const errors = [...(txn.validationErrors ?? []), ...parsed.error]
+      txn.validationErrors = errors
+      if (i === MAX_JSON_RETRIES) {
+        break
+      }
+      const retry = await complete(
+        config,
+        {
+          ...txn,
+          input: _retryJSONInput(caller, txn, output.text, parsed.error),
+          numOutputs: 1,
+          continueLastMessage: false
+        },
+        signal
+      )
+      const retried = isOk(retry) ? retry.data[0] : undefined
+      if (!retried) {
+        errors.push(
+          isOk(retry) ? "Retry returned no output" : retry.error.message
+        )
+        break
+      }
+      usage = _addUsage(usage, retried.usage)
+      output = retried
+      parsed = parseJSON(output.text, txn.responseFormat?.schema)
+    }
+    outputs.push({ ...output, parsed: isOk(parsed) ? parsed.data : undefined })
+  }
+  return ok(usage ? outputs.map((output) => ({ ...output, usage })) : outputs)
+}
+
+function _addUsage(total?: Usage, usage?: Usage): Usage | undefined {
+  if (!total || !usage) {
+    return total ?? usage
+  }
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens
+  }
+}
+
+// Shows the model its reply and what's wrong with it
+function _retryJSONInput(
+  caller: Model,
+  txn: Transaction<Input>,
+  reply: string,
+  errors: string[]
+): Input {
+  const { input } = txn
+  const messages: ChatMessage[] = isMessagesInput(input)
+    ? // The reply already includes any continued message
+      input.messages.slice(
+        0,
+        getPrefill(caller, txn) !== undefined ? -1 : undefined
+      )
+    : [
+        {
+          role: "user",
+          content: isInsertionInput(input)
+            ? insertionToPrompt(input.prompt, input.suffix)
+            : input.prompt
+        }
+      ]
+  return {
+    messages: [
+      ...messages,
+      { role: "assistant", content: reply },
+      {
+        role: "user",
+        content: `Your reply is invalid:\n${errors.join(
+          "\n"
+        )}\nReply with only the corrected JSON.`
+      }
+    ]
+  }
+}
+
 export async function shouldStream(
   config: Config,
   request: CompletionRequest
 ): Promise<boolean> {
   const caller = await configManager.getModelCaller(config)
-  // TODO allow > 1 numOutputs
+  // JSON outputs are validated before being returned, so they can't stream
   const canStream =
-    caller.config.isStreamable && request.transaction.numOutputs === 1
+    caller.config.isStreamable && !request.transaction.responseFormat
   if (!canStream) {
     return false
   }
@@ -76,13 +256,15 @@ export async function shouldStream(
 
 export async function stream(
   config: Config,
-  txn: Transaction
-): Promise<AsyncGenerator<Result<string, ErrorCode | string>>> {
+  txn: Transaction<Input>,
+  signal?: AbortSignal
+): Promise<AsyncGenerator<Result<ModelOutput, WindowAIErrorData>>> {
+  let result: Result<ReadableStream<ModelOutput>, WindowAIErrorData>
   try {
     const caller = await configManager.getModelCaller(config)
     const model = txn.routedModel
 
-    const stream = await caller.stream(txn.input, {
+    result = await caller.stream(txn.input, {
       apiKey: config.apiKey,
       baseUrl: config.baseUrl,
       model,
@@ -90,33 +272,47 @@ export async function stream(
       originTitle: txn.origin.title,
       max_tokens: txn.maxTokens,
       temperature: txn.temperature,
-      stop_sequences: txn.stopSequences
+      stop_sequences: txn.stopSequences,
+      num_generations: txn.numOutputs,
+      top_p: txn.topP,
+      frequency_penalty: txn.frequencyPenalty,
+      presence_penalty: txn.presencePenalty,
+      seed: txn.seed,
+      logit_bias: txn.logitBias,
+      response_format: txn.responseFormat,
+      continue_last_message: txn.continueLastMessage,
+      tools: txn.tools,
+      signal
     })
-    return readableStreamToGenerator(unwrap(stream))
   } catch (error) {
-    async function* generator() {
-      yield unknownErr(error)
-    }
-    return generator()
+    result = unknownErr(error)
+  }
+  if (isOk(result)) {
+    return readableStreamToGenerator(result.data, signal)
+  }
+  const error = result
+  async function* generator() {
+    yield error
   }
+  return generator()
 }
 
 async function* readableStreamToGenerator(
-  stream: ReadableStream<string>
-): AsyncGenerator<Result<string, string>> {
+  stream: ReadableStream<ModelOutput>,
+  signal?: AbortSignal
+): AsyncGenerator<Result<ModelOutput, WindowAIErrorData>> {
   const reader = stream.getReader()
-  const decoder = new TextDecoder("utf-8")
-  let lastValue: string | undefined = undefined
+  // Cancelling the reader closes the underlying connection to the model
+  const onAbort = () => reader.cancel()
+  signal?.addEventListener("abort", onAbort)
+  let lastValue: ModelOutput | undefined = undefined
   try {
     while (true) {
       const { done, value } = await reader.read()
       if (done) {
         break
       }
-      lastValue =
-        typeof value === "string"
-          ? value
-          : decoder.decode(value, { stream: true }) // only for node.js
+      lastValue = value
       log("Got stream value: ", lastValue)
       yield ok(lastValue)
     }
@@ -124,6 +320,7 @@ async function* readableStreamToGenerator(
     console.error("Streaming error: ", error, lastValue)
     yield unknownErr(error)
   } finally {
+    signal?.removeEventListener("abort", onAbort)
     reader.releaseLock()
   }
 }
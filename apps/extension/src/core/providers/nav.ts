@@ -1,7 +1,7 @@
 import { createProvider } from "puro"
 import { useContext, useEffect, useState } from "react"
 
-export type NavView = "activity" | "apps"
+export type NavView = "activity" | "apps" | "queue"
 
 const useNavProvider = () => {
   const [view, setView] = useState<NavView>("activity")
@@ -0,0 +1,29 @@
+import { AxiosError } from "axios"
+import { ErrorCode, type WindowAIErrorData, parseHTTPError } from "window.ai"
+
+// Maps a failed request to a model provider to an error for the page
+export function parseAxiosError(
+  error: AxiosError,
+  provider: string
+): WindowAIErrorData {
+  const details = {
+    ...parseHTTPError(
+      error.response?.status,
+      error.response?.data,
+      error.response?.headers["retry-after"],
+      error.message
+    ),
+    provider
+  }
+  if (error.code === AxiosError.ERR_CANCELED) {
+    return { ...details, code: ErrorCode.Cancelled }
+  }
+  if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+    return { ...details, code: ErrorCode.Timeout }
+  }
+  // Network errors are like auth errors when interacting with localhost
+  if (error.code === "ERR_NETWORK") {
+    return { ...details, code: ErrorCode.NotAuthenticated }
+  }
+  return details
+}
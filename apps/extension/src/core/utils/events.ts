@@ -0,0 +1,18 @@
+import type { EventData, EventType } from "window.ai"
+
+import { PortName } from "~core/constants"
+import { Extension } from "~core/extension"
+
+// Dispatches an event to listening pages from outside the background script.
+// If origin is set, only pages on that origin get the event. Pages on the
+// skipped origins never get it.
+export function sendEvent<E extends EventType>(
+  event: E,
+  data: EventData[E],
+  origin?: string,
+  skipOrigins?: string[]
+) {
+  Extension.sendToBackground(PortName.Events, {
+    request: { event, data, origin, skipOrigins }
+  })
+}
@@ -0,0 +1,160 @@
+import type { JSONSchema } from "window.ai"
+
+import { type Result, err, ok } from "./result-monad"
+
+// Decodes JSON from a model's reply and checks it against the schema.
+// Errors are messages that can be shown to the model so it can fix its reply.
+export function parseJSON(
+  text: string,
+  schema?: JSONSchema
+): Result<unknown, string[]> {
+  const value = _extractJSON(text)
+  if (value === undefined) {
+    return err(["The reply is not valid JSON"])
+  }
+  const errors = schema ? validate(value, schema) : []
+  return errors.length ? err(errors) : ok(value)
+}
+
+// Supports the commonly used subset of JSON Schema: type, enum, const,
+// properties, required, additionalProperties, items, min/maxItems and anyOf
+export function validate(
+  value: unknown,
+  schema: JSONSchema,
+  path = "$"
+): string[] {
+  const errors: string[] = []
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some((t) => _isType(value, t))) {
+      return [`${path} should be of type ${types.join(" or ")}`]
+    }
+  }
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((e) => _isEqual(e, value))
+  ) {
+    errors.push(
+      `${path} should be one of ${schema.enum
+        .map((e) => JSON.stringify(e))
+        .join(", ")}`
+    )
+  }
+  if ("const" in schema && !_isEqual(schema.const, value)) {
+    errors.push(`${path} should be ${JSON.stringify(schema.const)}`)
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const matches = (schema.anyOf as JSONSchema[]).some(
+      (s) => validate(value, s, path).length === 0
+    )
+    if (!matches) {
+      errors.push(`${path} should match one of the allowed schemas`)
+    }
+  }
+
+  if (_isType(value, "object")) {
+    errors.push(
+      ..._validateObject(value as Record<string, unknown>, schema, path)
+    )
+  }
+  if (Array.isArray(value)) {
+    errors.push(..._validateArray(value, schema, path))
+  }
+  return errors
+}
+
+function _validateObject(
+  value: Record<string, unknown>,
+  schema: JSONSchema,
+  path: string
+): string[] {
+  const errors: string[] = []
+  const properties = (schema.properties ?? {}) as Record<string, JSONSchema>
+  const required = (schema.required ?? []) as string[]
+  for (const key of required) {
+    if (!(key in value)) {
+      errors.push(`${path} is missing required property "${key}"`)
+    }
+  }
+  for (const [key, propValue] of Object.entries(value)) {
+    const propPath = `${path}.${key}`
+    if (key in properties) {
+      errors.push(...validate(propValue, properties[key]!, propPath))
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${propPath} is not an allowed property`)
+    } else if (typeof schema.additionalProperties === "object") {
+      errors.push(
+        ...validate(
+          propValue,
+          schema.additionalProperties as JSONSchema,
+          propPath
+        )
+      )
+    }
+  }
+  return errors
+}
+
+function _validateArray(
+  value: unknown[],
+  schema: JSONSchema,
+  path: string
+): string[] {
+  const errors: string[] = []
+  if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+    errors.push(`${path} should have at least ${schema.minItems} items`)
+  }
+  if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+    errors.push(`${path} should have at most ${schema.maxItems} items`)
+  }
+  if (typeof schema.items === "object" && schema.items) {
+    value.forEach((item, i) =>
+      errors.push(
+        ...validate(item, schema.items as JSONSchema, `${path}[${i}]`)
+      )
+    )
+  }
+  return errors
+}
+
+function _isType(value: unknown, type: unknown): boolean {
+  switch (type) {
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      )
+    case "array":
+      return Array.isArray(value)
+    case "integer":
+      return Number.isInteger(value)
+    case "null":
+      return value === null
+    default:
+      return typeof value === type
+  }
+}
+
+function _isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Models often wrap JSON in a code block or in prose, so fall back to the
+// outermost object or array in the reply
+function _extractJSON(text: string): unknown {
+  const candidates = [
+    text.trim(),
+    text.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1],
+    text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1),
+    text.slice(text.indexOf("["), text.lastIndexOf("]") + 1)
+  ]
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue
+    }
+    try {
+      return JSON.parse(candidate)
+    } catch (_) {}
+  }
+  return undefined
+}
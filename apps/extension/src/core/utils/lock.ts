@@ -0,0 +1,19 @@
+// Runs tasks with the same key one at a time, in the order they were queued.
+// Only serializes within one context, e.g. the background script.
+export class KeyedLock {
+  private tails = new Map<string, Promise<unknown>>()
+
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve()
+    const result = previous.then(task, task)
+    const tail = result.catch(() => undefined)
+    this.tails.set(key, tail)
+    try {
+      return await result
+    } finally {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key)
+      }
+    }
+  }
+}
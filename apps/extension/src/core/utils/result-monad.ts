@@ -1,3 +1,5 @@
+import { ErrorCode, type WindowAIErrorData } from "window.ai"
+
 export type Ok<T> = {
   __kind: "OK"
   data: T
@@ -10,8 +12,15 @@ export type Err<E> = {
 
 export const ok = <T>(data: T): Ok<T> => ({ __kind: "OK", data })
 export const err = <E>(error: E): Err<E> => ({ __kind: "ERR", error })
-export const unknownErr = (error: unknown): Err<string> =>
-  err(error instanceof Error ? error.message : `${error}`)
+export const unknownErr = (error: unknown): Err<WindowAIErrorData> =>
+  err({
+    code: ErrorCode.Unknown,
+    message: error instanceof Error ? error.message : `${error}`
+  })
+export const codeErr = (
+  code: ErrorCode,
+  message: string = code
+): Err<WindowAIErrorData> => err({ code, message })
 
 export type Result<T, E> = Ok<T> | Err<E>
 
@@ -1,4 +1,12 @@
-import { type ChatMessage, isMediaExtension } from "window.ai"
+import {
+  type ChatMessage,
+  type ContentPart,
+  type JSONSchema,
+  ModelID,
+  contentToText,
+  isMediaExtension,
+  parseModelID
+} from "window.ai"
 
 export function log(...args: unknown[]) {
   if (process.env.NODE_ENV === "development") {
@@ -36,11 +44,102 @@ export function objectEntries<T extends object>(obj: T): Entries<T> {
   return Object.entries(obj) as Entries<T>
 }
 
-export function messagesToPrompt(messages: ChatMessage[]): string {
+// If continuing the last message, it's left open for the model to complete
+export function messagesToPrompt(
+  messages: ChatMessage[],
+  shouldContinueLast = false
+): string {
+  const prompt = messages
+    .map(
+      (m) =>
+        `${m.role === "user" ? "<human>" : "<bot>"}: ${contentToText(
+          m.content
+        )}`
+    )
+    .join("\n")
+  const isContinuing =
+    shouldContinueLast && messages[messages.length - 1]?.role === "assistant"
+  return isContinuing ? prompt : prompt + "\n<bot>: "
+}
+
+// For chat APIs that reply to a trailing assistant message: asks the model
+// to continue it, so the reply is just the rest of the message
+export function withContinuation(
+  messages: ChatMessage[],
+  shouldContinueLast = false
+): ChatMessage[] {
+  const isContinuing =
+    shouldContinueLast && messages[messages.length - 1]?.role === "assistant"
+  if (!isContinuing) {
+    return messages
+  }
+  return [
+    ...messages,
+    {
+      role: "user",
+      content:
+        "Continue your last message from exactly where it ends. " +
+        "Reply with only the rest of it, without repeating any of it."
+    }
+  ]
+}
+
+const INSERTION_MARKER = "<FILL_ME>"
+
+// Instructs the model to write the text between the prompt and suffix
+export function insertionToPrompt(prompt: string, suffix: string): string {
   return (
-    messages
-      .map((m) => `${m.role === "user" ? "<human>" : "<bot>"}: ${m.content}`)
-      .join("\n") + "\n<bot>: "
+    `Write the text that replaces ${INSERTION_MARKER} below. ` +
+    `Reply with only that text, without repeating the text around it.\n\n` +
+    `${prompt}${INSERTION_MARKER}${suffix}`
+  )
+}
+
+export function jsonInstruction(schema?: JSONSchema): string {
+  return schema
+    ? `Reply with only JSON that matches this JSON schema: ${JSON.stringify(
+        schema
+      )}`
+    : "Reply with only JSON."
+}
+
+// Returns the image as a URL, using a data URL for base64 images
+export function imageURL(part: ContentPart): string | undefined {
+  switch (part.type) {
+    case "image_url":
+      return part.image_url.url
+    case "image_data":
+      const { mime_type, data } = part.image_data
+      return `data:${mime_type};base64,${data}`
+    case "text":
+      return undefined
+  }
+}
+
+// The models with a native JSON mode. The rest only get the instruction in
+// the prompt, and their output is validated and retried instead.
+const jsonModeModels: ModelID[] = [ModelID.GPT_3, ModelID.GPT_3_16k]
+
+// OpenAI's JSON mode, or undefined if the model doesn't support it. The
+// schema is only given in the prompt.
+export function toOpenAIResponseFormat(model?: string | null) {
+  const id = model ? parseModelID(model) : undefined
+  return id && jsonModeModels.includes(id) ? { type: "json_object" } : undefined
+}
+
+// For APIs like OpenAI's, which only accept images as URLs
+export function withImageURLs(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((m) =>
+    typeof m.content === "string"
+      ? m
+      : {
+          ...m,
+          content: m.content.map((part) =>
+            part.type === "image_data"
+              ? { type: "image_url", image_url: { url: imageURL(part)! } }
+              : part
+          )
+        }
   )
 }
 
@@ -1,13 +1,22 @@
-import { isMediaHosted, isMediaOutput, isPromptInput } from "window.ai"
+import {
+  type Input,
+  isMediaHosted,
+  isMediaOutput,
+  isPromptInput
+} from "window.ai"
 
 import { Logo } from "~core/components/pure/Logo"
 import { Text } from "~core/components/pure/Text"
+import { Thumbnails } from "~core/components/pure/Thumbnails"
 import { originManager } from "~core/managers/origin"
 import type { Transaction } from "~core/managers/transaction"
-import { transactionManager } from "~core/managers/transaction"
+import {
+  isCompletionTransaction,
+  transactionManager
+} from "~core/managers/transaction"
 import { extractExtensionFromURL, formatDate } from "~core/utils/utils"
 
-function createMediaDownloadLinks({ input, outputs }: Transaction) {
+function createMediaDownloadLinks({ input, outputs }: Transaction<Input>) {
   if (!outputs || !outputs.every(isMediaOutput) || !isPromptInput(input) ||!outputs.every(isMediaHosted)) {
     return null
   }
@@ -36,10 +45,13 @@ function createMediaDownloadLinks({ input, outputs }: Transaction) {
 export function ActivityItem({ transaction }: { transaction: Transaction }) {
   const url = originManager.url(transaction.origin)
   const model = transactionManager.getRoutedModel(transaction)
-  const output = transaction?.outputs?.every(isMediaOutput) && transaction?.outputs?.every(isMediaHosted)
+  const output = isCompletionTransaction(transaction) && transaction.outputs?.every(isMediaOutput) && transaction.outputs?.every(isMediaHosted)
     ? createMediaDownloadLinks(transaction)
     : transactionManager.formatOutput(transaction)
   let input = transactionManager.formatInput(transaction)
+  const images = transactionManager.getInputImages(transaction)
+  const usage = transactionManager.formatUsage(transaction)
+  const finishReasons = transactionManager.formatFinishReasons(transaction)
   return (
     <div className="pb-8">
       <div className="grid grid-cols-6 mb-2">
@@ -77,6 +89,7 @@ export function ActivityItem({ transaction }: { transaction: Transaction }) {
       <p className="mt-4">
         <b>Prompt:</b> {input}
       </p>
+      {images.length > 0 && <Thumbnails className="mt-2" urls={images} />}
 
       <p className="mt-4">
         <b>Response:</b>{" "}
@@ -84,6 +97,30 @@ export function ActivityItem({ transaction }: { transaction: Transaction }) {
           (!transaction.error && <span className="italic">Pending</span>)}
       </p>
 
+      {finishReasons && (
+        <p className="mt-4">
+          <b>Finish reason:</b> {finishReasons}
+        </p>
+      )}
+
+      {usage && (
+        <p className="mt-4">
+          <b>Usage:</b> {usage}
+        </p>
+      )}
+
+      {transaction.validationErrors && (
+        <p className="mt-4">
+          <b>Validation errors:</b> {transaction.validationErrors.join("; ")}
+        </p>
+      )}
+
+      {transaction.droppedOptions && (
+        <p className="mt-4">
+          <b>Ignored options:</b> {transaction.droppedOptions.join(", ")}
+        </p>
+      )}
+
       {transaction.error && (
         <div className="mt-4 text-red-300 ">
           <b>Error:</b> {transaction.error}
@@ -9,15 +9,21 @@ import { Text } from "~core/components/pure/Text"
 import type { Origin } from "~core/managers/origin"
 import { originManager } from "~core/managers/origin"
 
-import { AppsItem } from "./AppsItem"
+import { AppsDomain } from "./AppsDomain"
+import { WildcardRules } from "./WildcardRules"
 
 export function Apps() {
   const { objects, loading, appendNextPage } = originManager.useObjects(20)
-  const [selectedApp, selectApp] = useState<Origin | undefined>()
+  const [selectedDomain, selectDomain] = useState<string | undefined>()
   const loaderRef = useRef<HTMLDivElement>(null)
 
   useInfiniteScroll(loaderRef, appendNextPage, objects.length > 0)
 
+  const domains: Record<string, Origin[]> = {}
+  for (const origin of objects) {
+    domains[origin.domain] = [...(domains[origin.domain] ?? []), origin]
+  }
+
   return (
     <div>
       {/* <HorizontalMenu<Filter>
@@ -33,11 +39,12 @@ export function Apps() {
 
       {/* <div className="mb-8" /> */}
 
-      {objects.map((origin: Origin) => (
+      {Object.entries(domains).map(([domain, origins]) => (
         <AppsRow
-          key={origin.id}
-          origin={origin}
-          onSelect={() => selectApp(origin)}
+          key={domain}
+          domain={domain}
+          origins={origins}
+          onSelect={() => selectDomain(domain)}
         />
       ))}
 
@@ -45,18 +52,30 @@ export function Apps() {
 
       <div ref={loaderRef}>{loading && <Skeleton />}</div>
 
-      <SlidingPane shown={!!selectedApp} onHide={() => selectApp(undefined)}>
-        {selectedApp && <AppsItem origin={selectedApp} />}
+      <WildcardRules />
+
+      <SlidingPane
+        shown={!!selectedDomain}
+        onHide={() => selectDomain(undefined)}>
+        {selectedDomain && (
+          <AppsDomain
+            domain={selectedDomain}
+            origins={domains[selectedDomain] ?? []}
+          />
+        )}
       </SlidingPane>
     </div>
   )
 }
 
+// One row per domain, for all of its pages
 function AppsRow({
-  origin,
+  domain,
+  origins,
   onSelect
 }: {
-  origin: Origin
+  domain: string
+  origins: Origin[]
   onSelect: () => void
 }) {
   return (
@@ -65,12 +84,16 @@ function AppsRow({
       onClick={onSelect}>
       <Logo
         className="self-start mx-2 my-1 w-5 rounded-full"
-        faviconFor={origin.domain}
+        faviconFor={domain}
       />
       <div className="col-span-6">
-        <Text truncate>{originManager.originDisplay(origin)}</Text>
+        <Text truncate>{originManager.originDisplay({ domain })}</Text>
         <Text lines={2} size="xs" dimming="less">
-          {origin.title} {originManager.url(origin)}
+          {origins.length === 1
+            ? origins.map((o) => `${o.title} ${originManager.url(o)}`)
+            : `${origins.length} pages: ${origins
+                .map((o) => o.path)
+                .join(", ")}`}
         </Text>
       </div>
     </div>
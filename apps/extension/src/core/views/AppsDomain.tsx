@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react"
+
+import { GrantsForm } from "~core/components/GrantsForm"
+import { Accordion } from "~core/components/pure/Accordion"
+import { Dropdown } from "~core/components/pure/Dropdown"
+import { Input } from "~core/components/pure/Input"
+import { Logo } from "~core/components/pure/Logo"
+import { Splitter } from "~core/components/pure/Splitter"
+import { Text } from "~core/components/pure/Text"
+import { Well } from "~core/components/pure/Well"
+import { configManager } from "~core/managers/config"
+import type { Origin } from "~core/managers/origin"
+import { originManager } from "~core/managers/origin"
+import { RuleMatch, ruleManager } from "~core/managers/rule"
+import { type OriginLimits, usageManager } from "~core/managers/usage"
+import { type ConfigSetting, configSettings } from "~core/views/Settings"
+
+import { AppsItem } from "./AppsItem"
+
+// Permissions for every page on a domain, and then for each page
+export function AppsDomain({
+  domain,
+  origins
+}: {
+  domain: string
+  origins: Origin[]
+}) {
+  const { object, setObject } = ruleManager.useObject(
+    ruleManager.domainId(domain)
+  )
+
+  return (
+    <div className="pb-8">
+      <div className="grid grid-cols-6">
+        <Logo className="w-7 self-top mr-3 mt-4" faviconFor={domain} />
+        <div className="col-span-5">
+          <Text size="lg" strength="bold">
+            {originManager.originDisplay({ domain })}
+          </Text>
+          <Text dimming="less">
+            {origins.length} page{origins.length === 1 ? "" : "s"}
+          </Text>
+        </div>
+      </div>
+      <div className="mt-8" />
+      <Well>
+        <div className="-my-3">
+          <Text strength="medium" dimming="less">
+            Permissions for every page
+          </Text>
+        </div>
+        <Splitter />
+        <GrantsForm
+          holder={object ?? ruleManager.init(RuleMatch.Domain, domain)}
+          manager={ruleManager}
+          onSave={(rule) => setObject(rule)}
+          notify={{ domain, path: "/" }}
+        />
+      </Well>
+      <div className="mt-4" />
+      <Well>
+        <div className="-my-3">
+          <Text strength="medium" dimming="less">
+            Limits
+          </Text>
+        </div>
+        <Splitter />
+        <LimitsForm domain={domain} />
+      </Well>
+      <div className="mt-4" />
+      <Well>
+        <div className="-my-3">
+          <Text strength="medium" dimming="less">
+            Model
+          </Text>
+        </div>
+        <Splitter />
+        <ModelPicker domain={domain} />
+      </Well>
+      <div className="mt-4" />
+      <Text size="xs" dimming="less">
+        A page's own permissions take precedence
+      </Text>
+      {origins.map((origin) => (
+        <Accordion key={origin.id} title={origin.path}>
+          <AppsItem origin={origin} />
+        </Accordion>
+      ))}
+    </div>
+  )
+}
+
+// The model for the app's requests that don't set one
+function ModelPicker({ domain }: { domain: string }) {
+  const configId = configManager.useDomainConfigId(domain)
+  const [label, setLabel] = useState("Default")
+
+  useEffect(() => {
+    async function loadLabel() {
+      const config = configId ? await configManager.get(configId) : undefined
+      setLabel(config ? config.label : "Default")
+    }
+    loadLabel()
+  }, [configId])
+
+  async function select(setting?: ConfigSetting) {
+    const config = setting
+      ? await configManager.getOrInit(setting.auth, setting.model)
+      : undefined
+    await configManager.setForDomain(domain, config)
+  }
+
+  return (
+    <Dropdown<ConfigSetting | undefined>
+      choices={[undefined, ...configSettings]}
+      getLabel={(c) =>
+        c ? configManager.getLabelForAuth(c.auth, c.model) : "Default"
+      }
+      onSelect={select}>
+      {label}
+    </Dropdown>
+  )
+}
+
+type LimitField = {
+  key: keyof OriginLimits
+  label: string
+  format: (value: number) => string
+}
+
+const limitFields: LimitField[] = [
+  {
+    key: "requestsPerMinute",
+    label: "Requests per minute",
+    format: (v) => `${v}`
+  },
+  {
+    key: "tokensPerDay",
+    label: "Tokens per day",
+    format: (v) => v.toLocaleString()
+  },
+  {
+    key: "dollarsPerMonth",
+    label: "Estimated dollars per month",
+    format: (v) => `$${v.toFixed(2)}`
+  }
+]
+
+function LimitsForm({ domain }: { domain: string }) {
+  const usage = usageManager.useUsage(domain)
+  const { limits, setLimits } = usageManager.useLimits(domain)
+  const [values, setValues] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    setValues(
+      Object.fromEntries(
+        limitFields.map(({ key }) => [key, `${limits[key] ?? ""}`])
+      )
+    )
+  }, [limits])
+
+  const used: Record<keyof OriginLimits, number> = {
+    requestsPerMinute: usage.recentRequests.length,
+    tokensPerDay: usage.tokensToday,
+    dollarsPerMonth: usage.dollarsThisMonth
+  }
+
+  function save() {
+    const newLimits: OriginLimits = {}
+    for (const { key } of limitFields) {
+      const value = parseFloat(values[key] ?? "")
+      if (!isNaN(value) && value >= 0) {
+        newLimits[key] = value
+      }
+    }
+    setLimits(newLimits)
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {limitFields.map(({ key, label, format }) => {
+        const limit = limits[key]
+        return (
+          <Input
+            key={key}
+            type="number"
+            placeholder="No limit"
+            value={values[key] ?? ""}
+            onChange={(value) => setValues({ ...values, [key]: value })}
+            onBlur={save}
+            onEnter={save}>
+            <Text size="xs" dimming="less">
+              {label}: {format(used[key])}
+              {limit !== undefined && ` of ${format(limit)}`} used
+            </Text>
+          </Input>
+        )
+      })}
+    </div>
+  )
+}
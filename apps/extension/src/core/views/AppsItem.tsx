@@ -1,4 +1,4 @@
-import { Dropdown } from "~core/components/pure/Dropdown"
+import { GrantsForm } from "~core/components/GrantsForm"
 import { Logo } from "~core/components/pure/Logo"
 import { Splitter } from "~core/components/pure/Splitter"
 import { Text } from "~core/components/pure/Text"
@@ -33,16 +33,12 @@ export function AppsItem({ origin }: { origin: Origin }) {
           </Text>
         </div>
         <Splitter />
-        <Dropdown
-          choices={["allow", "ask"] as const}
-          onSelect={(permission) =>
-            setObject({
-              ...origin,
-              permissions: permission
-            })
-          }>
-          {object?.permissions === "allow" ? "Always allow" : "Ask"}
-        </Dropdown>
+        <GrantsForm
+          holder={object ?? origin}
+          manager={originManager}
+          onSave={(updated) => setObject(updated)}
+          notify={origin}
+        />
       </Well>
     </div>
   )
@@ -21,14 +21,19 @@ export function AuthRequest({
   const [transaction, error] =
     "error" in data
       ? [undefined, data.error]
-      : [data.requester.transaction, undefined]
+      : "transaction" in data.requester
+      ? [data.requester.transaction, undefined]
+      : [undefined, undefined]
 
   const requestedModel = transaction?.model
 
   useEffect(() => {
     async function promptForAuth() {
       // This allows us to prompt the user to authenticate a specific model
-      const config = await configManager.forModelWithDefault(requestedModel)
+      const config = await configManager.forModelWithDefault(
+        requestedModel,
+        transaction?.origin
+      )
       setConfig(config)
       setSettingsShown(true)
     }
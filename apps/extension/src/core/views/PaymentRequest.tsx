@@ -20,7 +20,9 @@ export function PaymentRequest({
   const [transaction, error] =
     "error" in data
       ? [undefined, data.error]
-      : [data.requester.transaction, undefined]
+      : "transaction" in data.requester
+      ? [data.requester.transaction, undefined]
+      : [undefined, undefined]
 
   const requestedModel = transaction?.model
 
@@ -1,15 +1,23 @@
 import { KeyIcon } from "@heroicons/react/24/solid"
-import { useEffect } from "react"
+import { useEffect, useState } from "react"
 import { parseModelID } from "window.ai"
 
+import { GrantDropdown, scopeLabels } from "~core/components/GrantDropdown"
 import { Accordion } from "~core/components/pure/Accordion"
 import { Button } from "~core/components/pure/Button"
 import { Dropdown } from "~core/components/pure/Dropdown"
 import { Text } from "~core/components/pure/Text"
-import type { PortResponse } from "~core/constants"
+import { Thumbnails } from "~core/components/pure/Thumbnails"
+import type { ModelRequest, PortResponse } from "~core/constants"
 import { PortName } from "~core/constants"
 import { AuthType, configManager } from "~core/managers/config"
-import { originManager } from "~core/managers/origin"
+import {
+  type GrantHolder,
+  type GrantManager,
+  PermissionScope
+} from "~core/managers/grant"
+import { type OriginData, originManager } from "~core/managers/origin"
+import { RuleMatch, ruleManager } from "~core/managers/rule"
 import type { Transaction } from "~core/managers/transaction"
 import { transactionManager } from "~core/managers/transaction"
 import { useConfig } from "~core/providers/config"
@@ -22,11 +30,6 @@ export function PermissionRequest({
   data: PortResponse[PortName.Permission]
   onResult: (response: boolean) => void
 }) {
-  const [transaction, error] =
-    "error" in data
-      ? [undefined, data.error]
-      : [data.requester.transaction, undefined]
-
   return (
     // TODO figure out why hfull doesn't work
     <div className="flex flex-col h-[92%]">
@@ -38,12 +41,20 @@ export function PermissionRequest({
           <Text size="lg" strength="medium">
             Permission Request
           </Text>
-          {transaction ? (
-            <TransactionPermission transaction={transaction} />
-          ) : (
+          {"error" in data ? (
             <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
-              Error: {error}
+              Error: {data.error}
             </p>
+          ) : "transaction" in data.requester ? (
+            <TransactionPermission
+              transaction={data.requester.transaction}
+              scope={data.scope}
+            />
+          ) : (
+            <ProviderUpdatePermission
+              origin={data.requester.origin}
+              update={data.requester.update}
+            />
           )}
         </div>
       </div>
@@ -59,15 +70,24 @@ export function PermissionRequest({
   )
 }
 
-function TransactionPermission({ transaction }: { transaction: Transaction }) {
+function TransactionPermission({
+  transaction,
+  scope
+}: {
+  transaction: Transaction
+  scope: PermissionScope
+}) {
   const { setSettingsShown } = useNav()
   const { config, setConfig } = useConfig()
-  const { object, setObject } = originManager.useObject(transaction.origin.id)
   const requestedModel = transaction.model
+  const images = transactionManager.getInputImages(transaction)
 
   useEffect(() => {
     async function checkConfig() {
-      const config = await configManager.forModelWithDefault(requestedModel)
+      const config = await configManager.forModelWithDefault(
+        requestedModel,
+        transaction.origin
+      )
       setConfig(config)
       if (!configManager.isCredentialed(config)) {
         setSettingsShown(true)
@@ -87,23 +107,147 @@ function TransactionPermission({ transaction }: { transaction: Transaction }) {
           ? ` (${requestedModel})`
           : ""}
       </p>
+      {images.length > 0 && (
+        <Thumbnails className="mt-2 justify-center" urls={images} />
+      )}
       <Accordion title="View Request" centered>
         <code className="block text-left text-xs overflow-y-auto max-h-20 px-4">
           {JSON.stringify(transactionManager.formatJSON(transaction), null, 2)}
         </code>
       </Accordion>
+      <GrantOptions
+        originData={transaction.origin}
+        scope={scope}
+        model={requestedModel}
+      />
+    </div>
+  )
+}
+
+function ProviderUpdatePermission({
+  origin,
+  update
+}: {
+  origin: OriginData
+  update: ModelRequest
+}) {
+  return (
+    <div className="flex flex-col items-center text-center">
+      <Text dimming="more" size="lg">
+        {originManager.originDisplay(origin)}
+      </Text>
+      <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+        This app is requesting permission to{" "}
+        {update.session === null ? "sign you out of" : "sign you in to"} its
+        model provider
+        {update.shouldSetDefault ? " and make it your default" : ""}
+      </p>
+      <GrantOptions
+        originData={origin}
+        scope={PermissionScope.ProviderUpdate}
+      />
+    </div>
+  )
+}
+
+// Lets the user decide future requests like this one, from this page or from
+// anywhere on its domain
+function GrantOptions({
+  originData,
+  scope,
+  model
+}: {
+  originData: OriginData
+  scope: PermissionScope
+  model?: string
+}) {
+  const [wholeDomain, setWholeDomain] = useState(false)
+  const { object, setObject } = originManager.useObject(originData.id)
+  const rule = ruleManager.useObject(ruleManager.domainId(originData.domain))
+  const notify = wholeDomain ? { ...originData, path: "/" } : originData
+
+  return (
+    <div className="mt-2 flex flex-col gap-1 w-full">
       <Dropdown
-        choices={["ask", "allow"] as const}
-        onSelect={async (permission) =>
-          setObject({
-            ...transaction.origin,
-            permissions: permission
-          })
-        }>
-        {object?.permissions === "allow"
-          ? "Always allow this site"
-          : "Always ask for this site"}
+        choices={[false, true]}
+        getLabel={(c) =>
+          c
+            ? `Everywhere on ${originManager.originDisplay(originData)}`
+            : "On this page"
+        }
+        onSelect={setWholeDomain}>
+        {wholeDomain
+          ? `Everywhere on ${originManager.originDisplay(originData)}`
+          : "On this page"}
       </Dropdown>
+      {wholeDomain ? (
+        <GrantRows
+          holder={
+            rule.object ?? ruleManager.init(RuleMatch.Domain, originData.domain)
+          }
+          manager={ruleManager}
+          onSave={rule.setObject}
+          notify={notify}
+          scope={scope}
+          model={model}
+        />
+      ) : (
+        <GrantRows
+          holder={object ?? originManager.init(originData)}
+          manager={originManager}
+          onSave={setObject}
+          notify={notify}
+          scope={scope}
+          model={model}
+        />
+      )}
     </div>
   )
 }
+
+function GrantRows<T extends GrantHolder>({
+  holder,
+  manager,
+  onSave,
+  notify,
+  scope,
+  model
+}: {
+  holder: T
+  manager: GrantManager<T>
+  onSave: (holder: T) => void
+  notify: { domain: string; path: string }
+  scope: PermissionScope
+  model?: string
+}) {
+  return (
+    <>
+      <div className="flex justify-between items-center">
+        <Text size="xs" dimming="less">
+          {scopeLabels[scope]}
+        </Text>
+        <GrantDropdown
+          holder={holder}
+          manager={manager}
+          target={{ scope }}
+          onSave={onSave}
+          notify={notify}
+        />
+      </div>
+      {model && (
+        <div className="flex justify-between items-center">
+          <Text size="xs" dimming="less" truncate>
+            Only {model}
+          </Text>
+          <GrantDropdown
+            holder={holder}
+            manager={manager}
+            target={{ model }}
+            onSave={onSave}
+            notify={notify}
+          />
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,96 @@
+import { Dropdown } from "~core/components/pure/Dropdown"
+import { Logo } from "~core/components/pure/Logo"
+import { Splitter } from "~core/components/pure/Splitter"
+import { Text } from "~core/components/pure/Text"
+import { Well } from "~core/components/pure/Well"
+import {
+  type QueueEntry,
+  type QueueLimits,
+  queueManager
+} from "~core/managers/queue"
+
+const limitChoices = [1, 2, 3, 4, 6, 8, 12, 16] as const
+
+export function Queue() {
+  const { running, waiting } = queueManager.useSnapshot()
+  const { limits, setLimits } = queueManager.useLimits()
+
+  function setLimit(key: keyof QueueLimits, value: number) {
+    setLimits({ ...limits, [key]: value })
+  }
+
+  return (
+    <div>
+      {running.map((entry) => (
+        <QueueRow key={entry.id} entry={entry} status="Sending" />
+      ))}
+      {waiting.map((entry) => (
+        <QueueRow
+          key={entry.id}
+          entry={entry}
+          status={`#${(entry.position ?? 0) + 1} in queue`}
+        />
+      ))}
+
+      {running.length === 0 && waiting.length === 0 && (
+        <div className="p-8">
+          <Text size="lg" align="center" strength="medium">
+            No requests in flight
+          </Text>
+        </div>
+      )}
+
+      <div className="p-2">
+        <Well>
+          <div className="-my-3">
+            <Text strength="medium" dimming="less">
+              Requests in flight
+            </Text>
+          </div>
+          <Splitter />
+          <div className="grid grid-cols-2 items-center">
+            <Text>Per app</Text>
+            <Dropdown
+              choices={limitChoices}
+              getLabel={String}
+              onSelect={(n) => setLimit("perOrigin", n)}>
+              {limits.perOrigin}
+            </Dropdown>
+            <Text>Per provider</Text>
+            <Dropdown
+              choices={limitChoices}
+              getLabel={String}
+              onSelect={(n) => setLimit("perProvider", n)}>
+              {limits.perProvider}
+            </Dropdown>
+          </div>
+        </Well>
+      </div>
+    </div>
+  )
+}
+
+function QueueRow({ entry, status }: { entry: QueueEntry; status: string }) {
+  return (
+    <div className="p-2 h-[4rem] grid grid-cols-7">
+      <Logo
+        className="self-start mx-2 my-1 w-5 rounded-full"
+        faviconFor={entry.origin}
+      />
+      <div className="col-span-6">
+        <div className="flex flex-row">
+          <div className="truncate flex-1">
+            <Text truncate>{entry.origin}</Text>
+          </div>
+          <div className="uppercase text-[10px] font-bold bg-slate-300 dark:bg-slate-900 py-0 px-2 rounded-md">
+            {entry.provider}
+          </div>
+        </div>
+        <Text size="xs" dimming="less">
+          {status}
+          {entry.priority !== 0 && ` · Priority ${entry.priority}`}
+        </Text>
+      </div>
+    </div>
+  )
+}
@@ -17,9 +17,9 @@ import { useConfig } from "~core/providers/config"
 import { isOk } from "~core/utils/result-monad"
 import { camelToWords, objectEntries } from "~core/utils/utils"
 
-type ConfigSetting = { auth: AuthType; model?: ModelID }
+export type ConfigSetting = { auth: AuthType; model?: ModelID }
 
-const configSettings: ConfigSetting[] = [
+export const configSettings: ConfigSetting[] = [
   { auth: AuthType.External }, // OpenRouter
   { auth: AuthType.APIKey, model: ModelID.GPT_3 },
   { auth: AuthType.APIKey, model: ModelID.GPT_4 },
@@ -41,7 +41,9 @@ export function Settings(props: { onHide: () => void }) {
   // Only show dropdown if there is no permission request
   // or if the permission request is for the default model
   const showDefaultConfigDropdown =
-    !data || ("requester" in data && !data.requester.transaction.model)
+    !data ||
+    ("requester" in data &&
+      !("transaction" in data.requester && data.requester.transaction.model))
 
   useEffect(() => {
     setApiKey(config?.apiKey || "")
@@ -238,7 +240,7 @@ function ExternalSettings({ config }: { config: Config }) {
       const res = await configManager.predictModel(config)
       if (isOk(res)) {
         setDefaultModel(res.data)
-      } else if (res.error === ErrorCode.NotAuthenticated) {
+      } else if (res.error.code === ErrorCode.NotAuthenticated) {
         setShouldLogInAgain(true)
       }
     }
@@ -0,0 +1,66 @@
+import { useState } from "react"
+
+import { GrantsForm } from "~core/components/GrantsForm"
+import { Accordion } from "~core/components/pure/Accordion"
+import { Input } from "~core/components/pure/Input"
+import { Text } from "~core/components/pure/Text"
+import {
+  type PermissionRule,
+  RuleMatch,
+  ruleManager
+} from "~core/managers/rule"
+
+// Rules for every domain that matches a pattern, e.g. "*.mycompany.com"
+export function WildcardRules() {
+  const ids = ruleManager.useWildcardIds()
+  const [pattern, setPattern] = useState("")
+
+  async function addRule() {
+    const trimmed = pattern.trim().toLowerCase()
+    // Patterns match hostnames, so they can't have a scheme or path
+    if (!/^[a-z0-9*.-]+$/.test(trimmed)) {
+      return
+    }
+    await ruleManager.save(ruleManager.init(RuleMatch.Wildcard, trimmed))
+    setPattern("")
+  }
+
+  return (
+    <div className="p-2">
+      <Accordion title="Wildcard rules">
+        {ids.map((id) => (
+          <WildcardRule key={id} id={id} />
+        ))}
+        <Input
+          value={pattern}
+          placeholder="*.example.com"
+          onChange={setPattern}
+          onEnter={addRule}>
+          <Text size="xs" dimming="less">
+            Add a rule for matching domains. Rules for a domain or page take
+            precedence.
+          </Text>
+        </Input>
+      </Accordion>
+    </div>
+  )
+}
+
+function WildcardRule({ id }: { id: string }) {
+  const { object, setObject } = ruleManager.useObject(id)
+  if (!object) {
+    return null
+  }
+
+  return (
+    <Accordion title={object.pattern}>
+      <div className="pb-4">
+        <GrantsForm
+          holder={object}
+          manager={ruleManager}
+          onSave={(updated) => setObject(updated)}
+        />
+      </div>
+    </Accordion>
+  )
+}
@@ -7,6 +7,7 @@ import { ConfigProvider } from "~core/providers/config"
 import { NavProvider, useNav } from "~core/providers/nav"
 import { Activity } from "~core/views/Activity"
 import { Apps } from "~core/views/Apps"
+import { Queue } from "~core/views/Queue"
 import { Settings } from "~core/views/Settings"
 
 import "./style.css"
@@ -65,6 +66,7 @@ function NavFrame() {
           <div className="flex-auto relative overflow-y-auto overflow-x-hidden">
             {view === "activity" && <Activity />}
             {view === "apps" && <Apps />}
+            {view === "queue" && <Queue />}
           </div>
         </div>
       )}
@@ -1,6 +1,6 @@
 import clsx from "clsx"
 import Balancer from "react-wrap-balancer"
-import { type ChatMessage } from "window.ai"
+import { type ChatMessage, contentToText } from "window.ai"
 
 // loading placeholder animation for the chat line
 export const LoadingChatLine = () => (
@@ -37,7 +37,7 @@ export function ChatLine({ role = "assistant", content }: ChatMessage) {
   if (!content) {
     return null
   }
-  const formatteMessage = convertNewLines(content)
+  const formatteMessage = convertNewLines(contentToText(content))
 
   return (
     <div
@@ -1,11 +1,26 @@
 import { useEffect, useRef, useState } from "react"
 import {
   ErrorCode,
+  createHTTPTransport,
+  createWindowAI,
   getWindowAI,
+  isWindowAIError,
   type ChatMessage,
+  type OutputMessage,
   type WindowAI
 } from "window.ai"
 
+// An OpenAI-compatible API to use for users without the extension
+const FALLBACK_URL = process.env.NEXT_PUBLIC_WINDOW_AI_FALLBACK_URL
+
+const createFallback = FALLBACK_URL
+  ? () =>
+      createWindowAI({
+        transport: createHTTPTransport({ baseUrl: FALLBACK_URL }),
+        model: process.env.NEXT_PUBLIC_WINDOW_AI_FALLBACK_MODEL
+      })
+  : undefined
+
 // default first message to display in UI (not necessary to define the prompt)
 export const initialMessages: ChatMessage[] = [
   {
@@ -21,7 +36,9 @@ export function useWindowAI(
     stream = false,
     prefixMessageCount = 0,
     maxTokens = 1024,
-    temperature = 0.7
+    temperature = 0.7,
+    // Used instead of detecting window.ai, e.g. a mock for tests and demos
+    windowAI = undefined as WindowAI | undefined
   } = {}
 ) {
   const messagesRef = useRef<ChatMessage[]>(defaultMessages)
@@ -35,16 +52,21 @@ export function useWindowAI(
   // TODO: This efefct can be an util hook
   useEffect(() => {
     const init = async () => {
+      if (windowAI) {
+        windowAIRef.current = windowAI
+        setIsReady(true)
+        return
+      }
       try {
         // we can also just use the waitForWindowAI method here, and use window.ai directly down there as well
-        windowAIRef.current = await getWindowAI()
+        windowAIRef.current = await getWindowAI({ fallback: createFallback })
         setIsReady(true)
       } catch {
         setShowInstallMessage(true)
       }
     }
     init()
-  }, [])
+  }, [windowAI])
 
   // send message to API /api/chat endpoint
   const sendMessage = async (
@@ -62,7 +84,7 @@ export function useWindowAI(
       { role: "user", content: message }
     ]
 
-    const responseMsg: ChatMessage = { role: "assistant", content: "" }
+    const responseMsg: OutputMessage = { role: "assistant", content: "" }
 
     setMessages((messagesRef.current = [...allMessages, { ...responseMsg }]))
     setPermissionDenied(false)
@@ -117,7 +139,7 @@ export function useWindowAI(
       }
     } catch (e) {
       console.error(e)
-      if (e === ErrorCode.PermissionDenied) {
+      if (isWindowAIError(e) && e.code === ErrorCode.PermissionDenied) {
         setPermissionDenied(true)
         setMessages(() => {
           messagesRef.current.pop()
@@ -2,7 +2,7 @@ import { IconInfoCircle } from "@tabler/icons-react"
 import clsx from "clsx"
 import type { ReactNode } from "react"
 import Balancer from "react-wrap-balancer"
-import type { ChatMessage } from "window.ai"
+import { type ChatMessage, contentToText } from "window.ai"
 import Tooltip from "~core/components/Tooltip"
 
 function ThinkingIndicator() {
@@ -100,7 +100,7 @@ export const AgentMonitor = ({
                 "hover:bg-slate-5",
                 "rounded-md"
               )}>
-              {message.content}
+              {contentToText(message.content)}
             </li>
           ))}
         </ul>
@@ -1,8 +1,8 @@
 import { AgentMonitor } from "~demo/agent/AgentMonitor"
 import { OODAState, useCrew } from "~demo/agent/useCrew"
 
-export const CrewMonitor = ({ id = "" }) => {
-  const { agent, state, log } = useCrew({ id })
+export const CrewMonitor = ({ id = "", offline = false }) => {
+  const { agent, state, log } = useCrew({ id, offline })
 
   return (
     <AgentMonitor
@@ -6,6 +6,7 @@ import {
   type AgentConfig
 } from "~demo/agent/agent-manager-provider"
 import { useLog } from "~demo/agent/useLog"
+import { useSimulator } from "~demo/agent/useSimulator"
 
 const getSystemPrompt = (goal: string, ac: AgentConfig) =>
   `I am ${ac.name}, ${ac.description}. My purpose is to ${ac.purpose}. I am a member of a larger project whose goal is to ${goal}. We will be utilizing the OODA loop, going through each phase one by one after each of your message which will provide me with relevant input guidance.`
@@ -35,8 +36,15 @@ function delay(ms: number) {
 // Crew has access to the agent pool
 // Crew can propose that a new agent should be hired
 // Crew are spawn autonomously, will have a runtime, and will communicate back its result to the agentManager at each action
-export const useCrew = ({ id = "", loopLimit = 4, interval = 4200 }) => {
+// Set `offline` to run the loop against the simulator instead of window.ai
+export const useCrew = ({
+  id = "",
+  loopLimit = 4,
+  interval = 4200,
+  offline = false
+}) => {
   const log = useLog()
+  const simulator = useSimulator()
 
   const [state, setState] = useState(OODAState.Idle)
   const { goal, getAgent } = useAgentManager()
@@ -56,7 +64,8 @@ export const useCrew = ({ id = "", loopLimit = 4, interval = 4200 }) => {
       }
     ],
     {
-      cacheSize: 25
+      cacheSize: 25,
+      windowAI: offline ? simulator : undefined
     }
   )
 
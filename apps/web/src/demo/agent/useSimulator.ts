@@ -1,2 +1,40 @@
+import { useMemo } from "react"
+import {
+  contentToText,
+  createMockWindowAI,
+  isMessagesInput,
+  type Input
+} from "window.ai"
+
+// Canned replies for each phase of the OODA loop, matched against the prompt
+const phaseReplies: [RegExp, string][] = [
+  [
+    /observe phase/,
+    "- The site has been surveyed\n- Supplies are limited\n- No feedback yet"
+  ],
+  [
+    /orientation phase/,
+    "- Water and shelter come first\n- Other agents depend on our progress"
+  ],
+  [
+    /decide phase/,
+    "- Extract water from ice\n- Build a pressurized shelter\n- Report to the captain"
+  ],
+  [/act phase/, "- Started extracting water\n- Extracted 20 liters of water"]
+]
+
+const simulate = (input: Input) => {
+  const prompt = isMessagesInput(input)
+    ? contentToText(input.messages[input.messages.length - 1]?.content ?? "")
+    : input.prompt
+  const match = phaseReplies.find(([pattern]) => pattern.test(prompt))
+  return match?.[1] ?? "- Nothing to report"
+}
+
 // The simulator emulate a "real-world" kind of environment. We can use the sim to provide simulated external world feedback for each agent's action.
-export const useSimulator = () => {}
+// For now it stands in for window.ai, so the crew loop can run offline.
+export const useSimulator = ({ latency = 300 } = {}) =>
+  useMemo(
+    () => createMockWindowAI({ latency, responses: [simulate] }),
+    [latency]
+  )
@@ -1,3 +1,4 @@
+import { useState } from "react"
 import { InputMessage } from "~core/components/InputMessage"
 import { useAgentManager } from "~demo/agent/agent-manager-provider"
 import { AgentHiringCard } from "~demo/agent/AgentHiringCard"
@@ -7,6 +8,8 @@ import { CrewMonitor } from "~demo/agent/CrewMonitor"
 // Create a screen writing mobile application with a novel UX that no one has seen before, ensure the design is great
 export function AgentPlaygroundView() {
   const { goal, setGoal, agentList } = useAgentManager()
+  // Runs the crew against the simulator, without window.ai
+  const [offline, setOffline] = useState(false)
 
   return (
     <div className="flex flex-row min-h-screen bg-slate-1 text-slate-11">
@@ -20,12 +23,20 @@ export function AgentPlaygroundView() {
             sendMessage={setGoal}
           />
         </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={offline}
+            onChange={(e) => setOffline(e.target.checked)}
+          />
+          Simulate responses offline
+        </label>
 
         <div className="flex flex-wrap w-full">
           <CaptainMonitor />
           <AgentHiringCard />
           {agentList.map((agent) => (
-            <CrewMonitor key={agent.id} id={agent.id} />
+            <CrewMonitor key={agent.id} id={agent.id} offline={offline} />
           ))}
         </div>
       </div>
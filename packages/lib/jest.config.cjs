@@ -0,0 +1,12 @@
+/** @type {import("ts-jest").JestConfigWithTsJest} */
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  transform: {
+    // Tests run as CommonJS, which verbatimModuleSyntax doesn't allow
+    "^.+\\.ts$": [
+      "ts-jest",
+      { tsconfig: { verbatimModuleSyntax: false }, isolatedModules: true }
+    ]
+  }
+}
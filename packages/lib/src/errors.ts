@@ -0,0 +1,66 @@
+import { ErrorCode, type WindowAIErrorData } from "./index"
+
+// Maps a model provider's error response to an error for the page. The
+// extension and the HTTP fallback both use it, so they report the same codes.
+export function parseHTTPError(
+  status: number | undefined,
+  data: unknown,
+  retryAfter: unknown,
+  defaultMessage: string
+): WindowAIErrorData {
+  const providerError = _getProviderError(data)
+  const details = { message: providerError.message ?? defaultMessage, status }
+  if (status === 408 || status === 504) {
+    return { ...details, code: ErrorCode.Timeout }
+  }
+  if (status === 401) {
+    return { ...details, code: ErrorCode.NotAuthenticated }
+  }
+  if (status === 402) {
+    return { ...details, code: ErrorCode.PaymentRequired }
+  }
+  if (status === 429) {
+    return {
+      ...details,
+      code: ErrorCode.RateLimited,
+      retryAfter: _parseRetryAfter(retryAfter)
+    }
+  }
+  if (status === 413 || providerError.isContextLength) {
+    return { ...details, code: ErrorCode.ContextLengthExceeded }
+  }
+  return { ...details, code: ErrorCode.ModelRejectedRequest }
+}
+
+function _getProviderError(data: any): {
+  message?: string
+  isContextLength: boolean
+} {
+  // OpenAI-style errors are nested under `error`
+  const message = data?.["error"]?.["message"] ?? data?.["message"]
+  if (typeof message !== "string") {
+    return { isContextLength: false }
+  }
+  return {
+    message,
+    isContextLength:
+      data?.["error"]?.["code"] === "context_length_exceeded" ||
+      /context length|context window|too many tokens/i.test(message)
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function _parseRetryAfter(header: unknown): number | undefined {
+  if (typeof header !== "string") {
+    return undefined
+  }
+  const seconds = Number(header)
+  if (!isNaN(seconds)) {
+    return seconds
+  }
+  const date = Date.parse(header)
+  if (isNaN(date)) {
+    return undefined
+  }
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000))
+}
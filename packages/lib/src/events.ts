@@ -0,0 +1,60 @@
+import type {
+  EventData,
+  EventHandler,
+  EventListenerHandler,
+  EventType,
+  RequestID,
+  WindowAI
+} from "./index"
+
+// Handlers added with `on`, kept per event type so each gets its own data type
+type EventHandlers<TModel> = {
+  [E in EventType]?: Map<RequestID, EventHandler<E, TModel>>
+}
+
+// The event methods of WindowAI, for implementations that run in the page
+export function createEventEmitter<TModel>() {
+  // Handlers added with `addEventListener`, which get every event
+  const allHandlers = new Map<RequestID, EventListenerHandler<unknown>>()
+  const handlers: EventHandlers<TModel> = {}
+
+  const methods: Pick<
+    WindowAI<TModel>,
+    "addEventListener" | "on" | "removeEventListener"
+  > = {
+    addEventListener<T>(handler: EventListenerHandler<T>) {
+      const id = randomID()
+      allHandlers.set(id, handler as EventListenerHandler<unknown>)
+      return id
+    },
+
+    on<E extends EventType>(event: E, handler: EventHandler<E, TModel>) {
+      const id = randomID()
+      const forEvent: EventHandlers<TModel>[E] = handlers[event] ?? new Map()
+      forEvent.set(id, handler)
+      handlers[event] = forEvent
+      return id
+    },
+
+    removeEventListener(id: RequestID) {
+      allHandlers.delete(id)
+      Object.values(handlers).forEach((forEvent) => forEvent.delete(id))
+    }
+  }
+
+  const emit = <E extends EventType>(event: E, data: EventData<TModel>[E]) => {
+    allHandlers.forEach((handler) => handler(event, data))
+    handlers[event]?.forEach((handler) => handler(data))
+  }
+
+  const clear = () => {
+    allHandlers.clear()
+    Object.values(handlers).forEach((forEvent) => forEvent.clear())
+  }
+
+  return { methods, emit, clear }
+}
+
+export function randomID(): RequestID {
+  return Math.random().toString(36).slice(2)
+}
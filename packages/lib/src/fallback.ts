@@ -0,0 +1,383 @@
+import { createEventEmitter, randomID } from "./events"
+import {
+  type ChatMessage,
+  type CompletionOptions,
+  type EmbeddingOutput,
+  ErrorCode,
+  EventType,
+  FinishReason,
+  type Input,
+  type InferredOutput,
+  type InsertionInput,
+  type MessageOutput,
+  ModelInputType,
+  type ParsedToolCall,
+  type PromptInput,
+  type TextOutput,
+  type WindowAI,
+  WindowAIError,
+  type WindowAIMetadata,
+  isInsertionInput,
+  isMessagesInput,
+  isWindowAIError,
+  mergePartialOutputs
+} from "./index"
+import type { OpenAIChatCompletion, OpenAIUsage } from "./openai"
+import type { Transport } from "./transport"
+
+const INSERTION_MARKER = "<FILL_ME>"
+
+export type CreateWindowAIOptions<TModel = string> = {
+  transport: Transport
+  // Used for requests that don't specify a model
+  model?: TModel
+  metadata?: Partial<WindowAIMetadata>
+}
+
+// Implements window.ai over an OpenAI-compatible API, for users who don't have
+// an extension installed. Permissions are up to the server behind the transport.
+export function createWindowAI<TModel = string>({
+  transport,
+  model,
+  metadata
+}: CreateWindowAIOptions<TModel>): WindowAI<TModel> {
+  const { methods: eventMethods, emit } = createEventEmitter<TModel>()
+
+  async function* stream<TInput extends Input>(
+    input: TInput,
+    options: CompletionOptions<TModel, TInput>
+  ): AsyncIterable<InferredOutput<TInput>> {
+    const id = randomID()
+    const { path, body } = _toRequest(input, options, model)
+    emit(EventType.RequestStarted, { id })
+    try {
+      const outputs = new Map<number, _StreamedOutput>()
+      let usage: OpenAIUsage | undefined
+      for await (const chunk of transport.stream(
+        path,
+        // Sends usage in the last chunk
+        { ...body, stream: true, stream_options: { include_usage: true } },
+        options.signal
+      )) {
+        const { choices = [], usage: chunkUsage } = chunk as _Chunk
+        usage = chunkUsage ?? usage
+        for (const choice of choices) {
+          const output = _accumulate(outputs, choice)
+          const text = choice.delta?.content
+          if (text) {
+            yield _toOutput(input, { index: output.index, text }, true)
+          }
+        }
+      }
+      const sorted = [...outputs.values()].sort((a, b) => a.index - b.index)
+      for (const output of sorted) {
+        yield _toOutput(input, { ...output, usage }, false, options)
+      }
+      emit(EventType.RequestFinished, { id })
+    } catch (error) {
+      const code = isWindowAIError(error) ? error.code : ErrorCode.Unknown
+      emit(EventType.RequestFinished, { id, error: code })
+      emit(EventType.Error, code)
+      throw error
+    }
+  }
+
+  const generate = async <TInput extends Input>(
+    input: TInput,
+    options: CompletionOptions<TModel, TInput> = {}
+  ): Promise<InferredOutput<TInput>[]> => {
+    const { onStreamResult, onStreamResults, numOutputs = 1 } = options
+    if (onStreamResult || onStreamResults) {
+      const outputs: InferredOutput<TInput>[] = []
+      let partials: InferredOutput<TInput>[] = []
+      try {
+        for await (const output of stream(input, options)) {
+          if ((output as TextOutput | MessageOutput).isPartial) {
+            onStreamResult?.(output, null)
+            partials = mergePartialOutputs(input, numOutputs, partials, [
+              output
+            ])
+            onStreamResults?.(partials, null)
+          } else {
+            outputs.push(output)
+          }
+        }
+      } catch (error) {
+        const code = isWindowAIError(error) ? error.code : ErrorCode.Unknown
+        onStreamResult?.(null, code)
+        onStreamResults?.(null, code)
+        throw error
+      }
+      return outputs
+    }
+
+    const id = randomID()
+    const { path, body } = _toRequest(input, options, model)
+    emit(EventType.RequestStarted, { id })
+    try {
+      const response = (await transport.request(
+        path,
+        body,
+        options.signal
+      )) as OpenAIChatCompletion
+      emit(EventType.RequestFinished, { id })
+      return response.choices.map((choice, i) =>
+        _toOutput(
+          input,
+          {
+            index: choice.index ?? i,
+            text: choice.message.content ?? "",
+            toolCalls: choice.message.tool_calls?.map((c) => ({
+              id: c.id,
+              name: c.function.name,
+              arguments: c.function.arguments
+            })),
+            finishReason: choice.finish_reason,
+            usage: response.usage
+          },
+          false,
+          options
+        )
+      )
+    } catch (error) {
+      const code = isWindowAIError(error) ? error.code : ErrorCode.Unknown
+      emit(EventType.RequestFinished, { id, error: code })
+      emit(EventType.Error, code)
+      throw error
+    }
+  }
+
+  return {
+    __window_ai_metadata__: {
+      domain: "fallback",
+      version: "1",
+      name: "HTTP fallback",
+      ...metadata
+    },
+
+    generateText: generate,
+
+    async getCompletion(input, options = {}) {
+      const shouldReturnMultiple = options.numOutputs && options.numOutputs > 1
+      const res = await generate(input, options)
+      return shouldReturnMultiple || !res[0] ? res : res[0]
+    },
+
+    streamText(input, options = {}) {
+      return stream(input, options)
+    },
+
+    async BETA_generate3DObject() {
+      throw new WindowAIError({
+        code: ErrorCode.InvalidRequest,
+        message: "3D objects aren't supported without the extension"
+      })
+    },
+
+    async generateEmbeddings(input, options = {}) {
+      const response = (await transport.request(
+        "/embeddings",
+        { model: options.model ?? model, input },
+        options.signal
+      )) as { data: (EmbeddingOutput & { index: number })[] }
+      return [...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map(({ embedding }) => ({ embedding }))
+    },
+
+    async getCurrentModel() {
+      return model
+    },
+
+    async listModels() {
+      if (model === undefined) {
+        return []
+      }
+      return [
+        {
+          id: model,
+          provider: metadata?.domain ?? "fallback",
+          canStream: true,
+          inputTypes: [
+            ModelInputType.Prompt,
+            ModelInputType.Messages,
+            ModelInputType.Embedding
+          ],
+          isConfigured: true
+        }
+      ]
+    },
+
+    ...eventMethods,
+
+    async BETA_updateModelProvider() {}
+  }
+}
+
+type _StreamedOutput = {
+  index: number
+  text: string
+  toolCalls?: { id: string; name: string; arguments: string }[]
+  finishReason?: string | null
+  usage?: OpenAIUsage
+}
+
+type _Chunk = {
+  choices?: {
+    index: number
+    delta?: {
+      content?: string | null
+      tool_calls?: {
+        index: number
+        id?: string
+        function?: { name?: string; arguments?: string }
+      }[]
+    }
+    finish_reason?: string | null
+  }[]
+  usage?: OpenAIUsage
+}
+
+function _accumulate(
+  outputs: Map<number, _StreamedOutput>,
+  choice: NonNullable<_Chunk["choices"]>[number]
+): _StreamedOutput {
+  const output = outputs.get(choice.index) ?? { index: choice.index, text: "" }
+  outputs.set(choice.index, output)
+  output.text += choice.delta?.content ?? ""
+  output.finishReason = choice.finish_reason ?? output.finishReason
+  for (const delta of choice.delta?.tool_calls ?? []) {
+    output.toolCalls = output.toolCalls ?? []
+    const call = (output.toolCalls[delta.index] = output.toolCalls[
+      delta.index
+    ] ?? { id: "", name: "", arguments: "" })
+    call.id = delta.id ?? call.id
+    call.name += delta.function?.name ?? ""
+    call.arguments += delta.function?.arguments ?? ""
+  }
+  return output
+}
+
+function _toRequest<TModel>(
+  input: Input,
+  options: CompletionOptions<TModel>,
+  model?: TModel
+): { path: string; body: Record<string, unknown> } {
+  const { stopSequences, responseFormat } = options
+  // Undefined values are dropped when the body is serialized
+  const params = {
+    model: options.model ?? model,
+    max_tokens: options.maxTokens,
+    temperature: options.temperature,
+    top_p: options.topP,
+    n: options.numOutputs,
+    stop: stopSequences?.length ? stopSequences : undefined,
+    frequency_penalty: options.frequencyPenalty,
+    presence_penalty: options.presencePenalty,
+    seed: options.seed,
+    logit_bias: options.logitBias
+  }
+  return {
+    path: "/chat/completions",
+    body: {
+      ...params,
+      messages: isMessagesInput(input)
+        ? input.messages.map(_withImageURLs)
+        : [{ role: "user", content: _toPrompt(input) }],
+      tools: isMessagesInput(input) ? options.tools : undefined,
+      response_format: responseFormat
+        ? responseFormat.schema
+          ? {
+              type: "json_schema",
+              json_schema: { name: "response", schema: responseFormat.schema }
+            }
+          : { type: "json_object" }
+        : undefined
+    }
+  }
+}
+
+// Chat models can't fill in text, so they're told to write just the middle
+function _toPrompt(input: PromptInput | InsertionInput): string {
+  if (!isInsertionInput(input)) {
+    return input.prompt
+  }
+  return (
+    `Write the text that replaces ${INSERTION_MARKER} below. ` +
+    `Reply with only that text, without repeating the text around it.\n\n` +
+    `${input.prompt}${INSERTION_MARKER}${input.suffix}`
+  )
+}
+
+function _withImageURLs(message: ChatMessage): ChatMessage {
+  if (typeof message.content === "string") {
+    return message
+  }
+  return {
+    ...message,
+    content: message.content.map((part) =>
+      part.type === "image_data"
+        ? {
+            type: "image_url",
+            image_url: {
+              url: `data:${part.image_data.mime_type};base64,${part.image_data.data}`
+            }
+          }
+        : part
+    )
+  }
+}
+
+function _toOutput<TInput extends Input>(
+  input: TInput,
+  output: _StreamedOutput,
+  isPartial: boolean,
+  options: CompletionOptions<unknown, TInput> = {}
+): InferredOutput<TInput> {
+  const { index, text } = output
+  if (isPartial) {
+    return (
+      isMessagesInput(input)
+        ? { message: { role: "assistant", content: text }, index, isPartial }
+        : { text, index, isPartial }
+    ) as InferredOutput<TInput>
+  }
+  const details = {
+    parsed: options.responseFormat ? _parseJSON(text) : undefined,
+    index,
+    finishReason: _toFinishReason(output.finishReason),
+    usage: output.usage && {
+      promptTokens: output.usage.prompt_tokens,
+      completionTokens: output.usage.completion_tokens
+    }
+  }
+  if (!isMessagesInput(input)) {
+    return { text, ...details } as InferredOutput<TInput>
+  }
+  const toolCalls: ParsedToolCall[] | undefined = output.toolCalls?.map(
+    (call) => ({
+      ...call,
+      arguments: _parseJSON(call.arguments) ?? call.arguments
+    })
+  ) as ParsedToolCall[] | undefined
+  return {
+    message: { role: "assistant", content: text },
+    toolCalls,
+    ...details
+  } as InferredOutput<TInput>
+}
+
+function _toFinishReason(reason?: string | null): FinishReason | undefined {
+  if (reason === "function_call") {
+    return FinishReason.ToolCalls
+  }
+  return Object.values(FinishReason).find((r) => r === reason)
+}
+
+function _parseJSON(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch (_) {
+    return undefined
+  }
+}
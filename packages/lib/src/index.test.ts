@@ -0,0 +1,76 @@
+import {
+  type MessageOutput,
+  type TextOutput,
+  mergePartialOutputs
+} from "./index"
+
+describe("mergePartialOutputs", () => {
+  it("appends each partial to the output with its index", () => {
+    const input = { messages: [{ role: "user" as const, content: "Hi" }] }
+    const first = mergePartialOutputs<MessageOutput>(
+      input,
+      2,
+      [],
+      [
+        {
+          message: { role: "assistant", content: "Hel" },
+          index: 0,
+          isPartial: true
+        },
+        {
+          message: { role: "assistant", content: "Bye" },
+          index: 1,
+          isPartial: true
+        }
+      ]
+    )
+    const merged = mergePartialOutputs(input, 2, first, [
+      {
+        message: { role: "assistant", content: "lo" },
+        index: 0,
+        isPartial: true
+      }
+    ])
+
+    expect(merged.map((o) => o.message.content)).toEqual(["Hello", "Bye"])
+    expect(merged.map((o) => o.index)).toEqual([0, 1])
+  })
+
+  it("has an empty output for each index that hasn't streamed yet", () => {
+    const merged = mergePartialOutputs<TextOutput>(
+      { prompt: "Hi" },
+      3,
+      [],
+      [{ text: "There", index: 1, isPartial: true }]
+    )
+
+    expect(merged).toEqual([
+      { text: "", index: 0, isPartial: true },
+      { text: "There", index: 1, isPartial: true },
+      { text: "", index: 2, isPartial: true }
+    ])
+  })
+
+  it("leaves the outputs it's given unchanged", () => {
+    const outputs: TextOutput[] = [{ text: "A", index: 0, isPartial: true }]
+    mergePartialOutputs({ prompt: "Hi" }, 1, outputs, [
+      { text: "B", index: 0, isPartial: true }
+    ])
+
+    expect(outputs).toEqual([{ text: "A", index: 0, isPartial: true }])
+  })
+
+  it("treats partials without an index as the first output", () => {
+    const merged = mergePartialOutputs<TextOutput>(
+      { prompt: "Hi" },
+      1,
+      [],
+      [
+        { text: "A", isPartial: true },
+        { text: "B", isPartial: true }
+      ]
+    )
+
+    expect(merged).toEqual([{ text: "AB", isPartial: true }])
+  })
+})
@@ -1,4 +1,45 @@
-export { hasWindowAI, getWindowAI, waitForWindowAI } from "./init"
+export {
+  hasWindowAI,
+  getWindowAI,
+  waitForWindowAI,
+  WINDOW_AI_READY_EVENT,
+  type WaitOptions,
+  type GetWindowAIOptions
+} from "./init"
+export {
+  getWindowAIProviders,
+  onWindowAIProvider,
+  announceWindowAIProvider,
+  WINDOW_AI_ANNOUNCE_EVENT,
+  WINDOW_AI_REQUEST_EVENT,
+  type WindowAIProviderDetail
+} from "./providers"
+export {
+  createOpenAICompatibleClient,
+  type OpenAICompatibleClient,
+  type OpenAIChatCompletionParams,
+  type OpenAICompletionParams,
+  type OpenAIRequestOptions,
+  type OpenAIChatCompletion,
+  type OpenAIChatCompletionChunk,
+  type OpenAICompletion,
+  type OpenAIUsage
+} from "./openai"
+export { createWindowAI, type CreateWindowAIOptions } from "./fallback"
+export {
+  createMockWindowAI,
+  type MockWindowAI,
+  type MockWindowAIOptions,
+  type MockResponse,
+  type MockReply,
+  type MockCall
+} from "./mock"
+export {
+  createHTTPTransport,
+  type Transport,
+  type HTTPTransportOptions
+} from "./transport"
+export { parseHTTPError } from "./errors"
 export { parseModelID, ModelID } from "./model"
 
 declare global {
@@ -20,8 +61,114 @@ export function isMediaExtension(
 // ChatML is a simple markup language for chat messages. More available here:
 // https://github.com/openai/openai-python/blob/main/chatml.md
 export type ChatMessage = {
-  role: "system" | "user" | "assistant"
-  content: string
+  role: "system" | "user" | "assistant" | "tool" | "function"
+  // Either text, or a list of parts for sending images to vision models
+  content: string | ContentPart[]
+  // For "tool" and "function" messages, the name of the function that was called
+  name?: string
+  // Function calls requested by the assistant. Send the message back unchanged,
+  // followed by one "tool" message per call, to continue the conversation.
+  tool_calls?: ToolCall[]
+  // For "tool" messages, the ID of the tool call this message is a result for
+  tool_call_id?: string
+}
+
+// Messages from the model always have text content
+export type OutputMessage = ChatMessage & { content: string }
+
+export type TextContentPart = {
+  type: "text"
+  text: string
+}
+
+// An image hosted at a URL, which can also be a data URL
+export type ImageURLContentPart = {
+  type: "image_url"
+  image_url: { url: string }
+}
+
+// An image encoded as base64, like "iVBORw0KGgo..."
+export type ImageDataContentPart = {
+  type: "image_data"
+  image_data: {
+    data: string
+    // The image's MIME type, like "image/png"
+    mime_type: string
+  }
+}
+
+export type ContentPart =
+  | TextContentPart
+  | ImageURLContentPart
+  | ImageDataContentPart
+
+export function isContentPart(part: unknown): part is ContentPart {
+  if (typeof part !== "object" || !part || !("type" in part)) {
+    return false
+  }
+  switch (part.type) {
+    case "text":
+      return "text" in part && typeof part.text === "string"
+    case "image_url":
+      return (
+        "image_url" in part &&
+        typeof (part.image_url as ImageURLContentPart["image_url"])?.url ===
+          "string"
+      )
+    case "image_data":
+      const imageData = "image_data" in part && part.image_data
+      return (
+        typeof (imageData as ImageDataContentPart["image_data"])?.data ===
+          "string" &&
+        typeof (imageData as ImageDataContentPart["image_data"])?.mime_type ===
+          "string"
+      )
+    default:
+      return false
+  }
+}
+
+// Joins the text of the content, with a placeholder for each image
+export function contentToText(
+  content: ChatMessage["content"],
+  imagePlaceholder = "[image]"
+): string {
+  if (typeof content === "string") {
+    return content
+  }
+  return content
+    .map((part) => (part.type === "text" ? part.text : imagePlaceholder))
+    .join("\n")
+}
+
+// A function that the model may decide to call
+export type Tool = {
+  type: "function"
+  function: {
+    name: string
+    description?: string
+    // JSON Schema object describing the arguments of the function
+    parameters?: Record<string, unknown>
+  }
+}
+
+// A function call requested by the model, in the format sent back to the model
+export type ToolCall = {
+  id: string
+  type: "function"
+  function: {
+    name: string
+    // JSON-encoded arguments. Not guaranteed to be valid JSON.
+    arguments: string
+  }
+}
+
+// A function call requested by the model, with its arguments decoded
+export type ParsedToolCall = {
+  id: string
+  name: string
+  // The decoded arguments, or the raw string if the model produced invalid JSON
+  arguments: Record<string, unknown> | string
 }
 
 export type ChatRole = ChatMessage["role"]
@@ -34,24 +181,78 @@ export type MessagesInput = {
   messages: ChatMessage[]
 }
 
-// Input allows you to specify either a prompt string or a list of chat messages.
-export type Input = PromptInput | MessagesInput
+// Fill-in-the-middle: generates the text that goes between prompt and suffix,
+// like code at a cursor position. Models that can't insert text are instructed
+// to fill in the gap instead.
+export type InsertionInput = {
+  prompt: string
+  suffix: string
+}
+
+// Input allows you to specify either a prompt string, a list of chat messages,
+// or text to insert between a prompt and a suffix.
+export type Input = PromptInput | MessagesInput | InsertionInput
 
+// Insertion inputs have a prompt too, but aren't prompt inputs
 export function isPromptInput(input: Input): input is PromptInput {
-  return "prompt" in input
+  return "prompt" in input && !("suffix" in input)
+}
+
+export function isInsertionInput(input: Input): input is InsertionInput {
+  return "prompt" in input && "suffix" in input
 }
 
 export function isMessagesInput(input: Input): input is MessagesInput {
   return "messages" in input
 }
 
+// Why the model stopped generating an output
+export enum FinishReason {
+  // Reached a natural stopping point or a stop sequence
+  Stop = "stop",
+  // Reached maxTokens or the model's context length
+  Length = "length",
+  // Requested tool calls
+  ToolCalls = "tool_calls",
+  // Omitted content because of the provider's content filter
+  ContentFilter = "content_filter"
+}
+
+// Token counts for the whole request, across all outputs
+export type Usage = {
+  promptTokens: number
+  completionTokens: number
+}
+
 export type TextOutput = {
   text: string
+  // The decoded JSON, if `responseFormat` was set and the text is valid.
+  // Only set on non-partial outputs.
+  parsed?: unknown
+  // Which of the outputs this is, when numOutputs > 1. Streamed partial outputs
+  // for each output are interleaved, so use this to tell them apart.
+  index?: number
+  // Only set on non-partial outputs, if the model reports it.
+  finishReason?: FinishReason
+  // Only set on non-partial outputs, if the model reports it.
+  usage?: Usage
   isPartial?: boolean
 }
 
 export type MessageOutput = {
-  message: ChatMessage
+  message: OutputMessage
+  // Function calls requested by the model, if any. Only set on non-partial outputs.
+  toolCalls?: ParsedToolCall[]
+  // The decoded JSON, if `responseFormat` was set and the content is valid.
+  // Only set on non-partial outputs.
+  parsed?: unknown
+  // Which of the outputs this is, when numOutputs > 1. Streamed partial outputs
+  // for each output are interleaved, so use this to tell them apart.
+  index?: number
+  // Only set on non-partial outputs, if the model reports it.
+  finishReason?: FinishReason
+  // Only set on non-partial outputs, if the model reports it.
+  usage?: Usage
   isPartial?: boolean
 }
 
@@ -79,8 +280,64 @@ export function isMediaHosted(output: MediaOutput) {
   return "url" in output && !!output.url
 }
 
+// Adds streamed partial outputs to the text so far of each output, by index.
+// This is what onStreamResults gets.
+export function mergePartialOutputs<T extends Output>(
+  input: Input,
+  numOutputs: number,
+  outputs: T[],
+  partials: T[]
+): T[] {
+  const merged: Output[] = Array.from(
+    { length: numOutputs },
+    (_, index) =>
+      outputs[index] ??
+      (isMessagesInput(input)
+        ? {
+            message: { role: "assistant", content: "" },
+            index,
+            isPartial: true
+          }
+        : { text: "", index, isPartial: true })
+  )
+  for (const partial of partials) {
+    if (isMediaOutput(partial)) {
+      continue
+    }
+    const index = partial.index ?? 0
+    const prev = merged[index]
+    if (isMessageOutput(partial)) {
+      const content = prev && isMessageOutput(prev) ? prev.message.content : ""
+      merged[index] = {
+        ...partial,
+        message: {
+          ...partial.message,
+          content: content + partial.message.content
+        }
+      }
+    } else {
+      const text = prev && isTextOutput(prev) ? prev.text : ""
+      merged[index] = { ...partial, text: text + partial.text }
+    }
+  }
+  return merged as T[]
+}
+
+// EmbeddingOutput is the vector representation of a single input text
+export type EmbeddingOutput = {
+  embedding: number[]
+}
+
+export function isEmbeddingOutput(
+  output: Output | EmbeddingOutput
+): output is EmbeddingOutput {
+  return "embedding" in output
+}
+
 export type InferredOutput<TInput> = TInput extends MessagesInput
   ? MessageOutput
+  : TInput extends InsertionInput
+  ? TextOutput
   : TInput extends PromptInput
   ? TextOutput | MediaOutput
   : Output
@@ -92,6 +349,9 @@ export interface Options<TModel, TInput extends Input = Input> {
   // How many completion choices to attempt to generate. Defaults to 1. If the
   // model doesn't support more than one, then an array with a single element will be returned.
   numOutputs?: number
+  // If specified, aborting this signal cancels the in-flight request and rejects the Promise
+  // with ErrorCode.Cancelled. Streamed partial results stop being delivered.
+  signal?: AbortSignal
 }
 
 // CompletionOptions allows you to specify options for the completion request.
@@ -105,6 +365,13 @@ export interface CompletionOptions<TModel, TInput extends Input = Input>
     result: InferredOutput<TInput> | null,
     error: string | null
   ) => unknown
+  // Like onStreamResult, but each update is an array of every output so far, by
+  // index, for when numOutputs is > 1. Each element only changes when its own
+  // output does.
+  onStreamResults?: (
+    results: InferredOutput<TInput>[] | null,
+    error: string | null
+  ) => unknown
   // What sampling temperature to use, between 0 and 2. Higher values like 0.8 will
   // make the output more random, while lower values like 0.2 will make it more focused and deterministic.
   // Different models have different defaults.
@@ -114,6 +381,43 @@ export interface CompletionOptions<TModel, TInput extends Input = Input>
   maxTokens?: number
   // Sequences where the API will stop generating further tokens.
   stopSequences?: string[]
+  // Nucleus sampling: only consider the tokens comprising this much probability mass,
+  // between 0 and 1. Recommended to change this or temperature, but not both.
+  topP?: number
+  // Between -2 and 2. Positive values penalize tokens by how often they've appeared so far.
+  frequencyPenalty?: number
+  // Between -2 and 2. Positive values penalize tokens that have appeared at all so far.
+  presencePenalty?: number
+  // If specified, the model will try to sample deterministically, so that repeated
+  // requests with the same seed and options return the same result.
+  seed?: number
+  // Maps token IDs (as strings) to a bias between -100 and 100 that's added to their
+  // logits before sampling. Token IDs depend on the model's tokenizer.
+  logitBias?: Record<string, number>
+  // NOTE: Models that don't support one of the above options will ignore it.
+  // Functions the model may call. Calls are returned in MessageOutput.toolCalls,
+  // and only supported by some models when using MessagesInput.
+  tools?: Tool[]
+  // Asks the model to reply with JSON, matching the schema if one is given. Outputs
+  // that don't match are retried, and the decoded JSON is returned as `parsed`.
+  // Outputs aren't streamed, since they're validated before being returned.
+  responseFormat?: ResponseFormat
+  // If the last message is from the assistant, the model continues it instead of
+  // replying with a new message. The output message has the full content, including
+  // the part that was sent. Only used with MessagesInput.
+  continueLastMessage?: boolean
+  // Requests from the same app wait in a queue when too many are in flight.
+  // Higher priorities are sent first, and equal ones in the order they were made.
+  // Defaults to 0.
+  priority?: number
+}
+
+// A JSON Schema object, like { type: "object", properties: {...} }
+export type JSONSchema = Record<string, unknown>
+
+export type ResponseFormat = {
+  type: "json"
+  schema?: JSONSchema
 }
 
 // ThreeDOptions  you to specify options for your generation request.
@@ -122,13 +426,26 @@ export interface ThreeDOptions<TModel> extends Options<TModel> {
   numInferenceSteps?: number
 }
 
+// EmbeddingOptions allows you to specify options for the embedding request.
+export interface EmbeddingOptions<TModel>
+  extends Omit<Options<TModel>, "numOutputs"> {}
+
 export function isCompletionOptions(
   options: Options<string, Input>
 ): options is CompletionOptions<string, Input> {
   return (
     "temperature" in options ||
     "maxTokens" in options ||
-    "stopSequences" in options
+    "stopSequences" in options ||
+    "tools" in options ||
+    "topP" in options ||
+    "frequencyPenalty" in options ||
+    "presencePenalty" in options ||
+    "seed" in options ||
+    "logitBias" in options ||
+    "responseFormat" in options ||
+    "continueLastMessage" in options ||
+    "priority" in options
   )
 }
 
@@ -139,17 +456,87 @@ export enum ErrorCode {
   RequestNotFound = "REQUEST_NOT_FOUND",
   InvalidRequest = "INVALID_REQUEST",
   PaymentRequired = "PAYMENT_REQUIRED",
-  ModelRejectedRequest = "MODEL_REJECTED_REQUEST"
+  ModelRejectedRequest = "MODEL_REJECTED_REQUEST",
+  Cancelled = "CANCELLED",
+  // The model provider is rate limiting the user. See WindowAIError.retryAfter
+  RateLimited = "RATE_LIMITED",
+  // The model provider took too long to respond
+  Timeout = "TIMEOUT",
+  // The input and maxTokens don't fit in the model's context window
+  ContextLengthExceeded = "CONTEXT_LENGTH_EXCEEDED",
+  // The user's limits for this app were reached. See WindowAIError.retryAfter
+  QuotaExceeded = "QUOTA_EXCEEDED",
+  Unknown = "UNKNOWN"
 }
 
 export function isKnownError(err: string): err is ErrorCode {
   return Object.values(ErrorCode).includes(err as ErrorCode)
 }
 
+// The details of a WindowAIError, as sent by the extension
+export type WindowAIErrorData = {
+  code: ErrorCode
+  message: string
+  // HTTP status of the model provider's response, if any
+  status?: number
+  // The model provider that the error came from, if any
+  provider?: string
+  // Seconds to wait before retrying, if the provider said so
+  retryAfter?: number
+}
+
+// Promises returned by the extension API reject with a WindowAIError
+export class WindowAIError extends Error {
+  code: ErrorCode
+  status?: number
+  provider?: string
+  retryAfter?: number
+
+  constructor({
+    code,
+    message,
+    status,
+    provider,
+    retryAfter
+  }: WindowAIErrorData) {
+    super(message)
+    this.name = "WindowAIError"
+    this.code = code
+    this.status = status
+    this.provider = provider
+    this.retryAfter = retryAfter
+  }
+}
+
+// Prefer this to `instanceof`, since the extension constructs errors with
+// its own copy of this class
+export function isWindowAIError(err: unknown): err is WindowAIError {
+  return (
+    err instanceof Error &&
+    "code" in err &&
+    typeof err.code === "string" &&
+    isKnownError(err.code)
+  )
+}
+
 // Event types emitted by the extension API
 export enum EventType {
   // Fired when the user's model is changed.
   ModelChanged = "model_changed",
+  // Fired when the user allows or denies a request from this origin, or
+  // changes whether it's always allowed.
+  PermissionChanged = "permission_changed",
+  // Fired when the user signs in or out of the external model provider.
+  AuthChanged = "auth_changed",
+  // Fired when a request from this origin is received, before the user
+  // has granted permission for it.
+  RequestQueued = "request_queued",
+  // Fired when a request from this origin is sent to the model.
+  RequestStarted = "request_started",
+  // Fired when a request from this origin succeeds, fails, or is cancelled.
+  RequestFinished = "request_finished",
+  // Fired when a queued request from this origin moves up the queue.
+  RequestQueuePositionChanged = "request_queue_position_changed",
   // Fired for errors
   Error = "error"
 }
@@ -161,6 +548,44 @@ export type EventListenerHandler<T> = (
   data: T | ErrorCode
 ) => void
 
+export type PermissionChange = {
+  // Path of the page on this origin that the change applies to
+  path: string
+  // Whether the user allowed the request, or always allows the page
+  permitted: boolean
+  // Whether the change applies to all future requests, or just one
+  isPersistent: boolean
+}
+
+export type RequestLifecycle = {
+  id: RequestID
+  // Set when the request finished with an error
+  error?: ErrorCode
+}
+
+export type RequestQueuePosition = {
+  id: RequestID
+  // How many of this origin's requests will be sent before this one, so 0 is
+  // next. Other origins' requests take turns with them.
+  position: number
+}
+
+// Data sent with each event type
+export type EventData<TModel = string> = {
+  [EventType.ModelChanged]: { model: TModel | undefined }
+  [EventType.PermissionChanged]: PermissionChange
+  [EventType.AuthChanged]: { isSignedIn: boolean }
+  [EventType.RequestQueued]: RequestLifecycle
+  [EventType.RequestStarted]: RequestLifecycle
+  [EventType.RequestFinished]: RequestLifecycle
+  [EventType.RequestQueuePositionChanged]: RequestQueuePosition
+  [EventType.Error]: ErrorCode
+}
+
+export type EventHandler<E extends EventType, TModel = string> = (
+  data: EventData<TModel>[E]
+) => void
+
 export type ModelProviderOptions = {
   // baseUrl is used to identify the model provider
   baseUrl: string
@@ -177,16 +602,46 @@ export type ModelProviderOptions = {
   shouldSetDefault?: boolean //
 }
 
+// The kinds of input that a model accepts
+export enum ModelInputType {
+  Prompt = "prompt",
+  Messages = "messages",
+  // Prompts for generating media, like 3D objects
+  Media = "media",
+  // Texts to embed
+  Embedding = "embedding"
+}
+
+// ModelInfo describes a model that the user can make requests to
+export type ModelInfo<TModel = string> = {
+  id: TModel
+  // Where requests for this model are sent, e.g. "openai" or "openrouter"
+  provider: string
+  // Maximum number of input and output tokens combined, if known
+  contextWindow?: number
+  // Whether partial results can be streamed back
+  canStream: boolean
+  inputTypes: ModelInputType[]
+  // Whether the user has set up credentials for this model
+  isConfigured: boolean
+}
+
 export const VALID_DOMAIN = "https://windowai.io" as const
 
+export type WindowAIMetadata = {
+  // Identifies the implementation, e.g. VALID_DOMAIN for the Window AI extension
+  domain: string
+  version: string
+  // Human-readable name and icon URL, for letting users pick a provider
+  name?: string
+  icon?: string
+}
+
 export interface WindowAI<TModel = string> {
   /**
    * Metadata containing the domain and version of the extension API
    */
-  __window_ai_metadata__: {
-    domain: typeof VALID_DOMAIN
-    version: string
-  }
+  __window_ai_metadata__: WindowAIMetadata
 
   /** Generate text completions from the specified (or preferred) model.
    * @param input The input to use for the completion.
@@ -198,6 +653,21 @@ export interface WindowAI<TModel = string> {
     options?: CompletionOptions<TModel, TInput>
   ): Promise<InferredOutput<TInput>[]>
 
+  /** Stream text completions from the specified (or preferred) model.
+   * @param input The input to use for the completion.
+   * @param options Options for the completion request.
+   * @returns An async iterable that yields partial results as deltas, and then
+   *          the final, aggregated results with `isPartial` unset. Errors are
+   *          thrown from the loop, and breaking out of it cancels the request.
+   */
+  streamText<TInput extends Input = Input>(
+    input: TInput,
+    options?: Omit<
+      CompletionOptions<TModel, TInput>,
+      "onStreamResult" | "onStreamResults"
+    >
+  ): AsyncIterable<InferredOutput<TInput>>
+
   /** Generates a 3D Object from a specified model.
    * @param input The input to use for the object generation.
    * @param options Options for the object generation request
@@ -208,17 +678,28 @@ export interface WindowAI<TModel = string> {
     options?: ThreeDOptions<TModel>
   ): Promise<MediaOutput[]>
 
+  /** Generate embeddings from the specified (or preferred) model.
+   * @param input The text, or list of texts, to embed.
+   * @param options Options for the embedding request.
+   * @returns A promise that resolves to one embedding per input text, in order.
+   */
+  generateEmbeddings(
+    input: string | string[],
+    options?: EmbeddingOptions<TModel>
+  ): Promise<EmbeddingOutput[]>
+
   /**
    * Get or stream a completion from the specified (or preferred) model.
    * @param input The input to use for the completion.
    * @param options Options for the completion request.
-   * @returns A promise that resolves to an array of completion results.
+   * @returns A promise that resolves to the completion result, or to an array of
+   *          them if numOutputs is > 1.
    * @deprecated Use generateText instead
    */
   getCompletion<TInput extends Input = Input>(
     input: TInput,
     options?: CompletionOptions<TModel, TInput>
-  ): Promise<InferredOutput<TInput>[]>
+  ): Promise<InferredOutput<TInput> | InferredOutput<TInput>[]>
 
   /** Get the user's current model.
    * @returns A promise that resolves to the user's current model, or
@@ -226,6 +707,12 @@ export interface WindowAI<TModel = string> {
    */
   getCurrentModel(): Promise<TModel | undefined>
 
+  /** List the models that the user can make requests to.
+   * @returns A promise that resolves to info about each known model, plus
+   *          the user's local model if they have one set up.
+   */
+  listModels(): Promise<ModelInfo<TModel>[]>
+
   /**
    * Add an event listener for all event types.
    * @param handler The handler to call when any event is emitted.
@@ -233,6 +720,20 @@ export interface WindowAI<TModel = string> {
    */
   addEventListener<T>(handler: EventListenerHandler<T>): RequestID
 
+  /**
+   * Add an event listener for a single event type.
+   * @param event The event type to listen for.
+   * @param handler The handler to call with the data of each event.
+   * @returns A request ID that can be used to remove the event listener.
+   */
+  on<E extends EventType>(event: E, handler: EventHandler<E, TModel>): RequestID
+
+  /**
+   * Remove an event listener, so that it stops receiving events.
+   * @param id The request ID returned by `addEventListener` or `on`.
+   */
+  removeEventListener(id: RequestID): void
+
   /**
    * Update the external model provider.
    * @param options The options for the model provider.
@@ -1,3 +1,9 @@
+import type { WindowAI } from "./index"
+
+// Dispatched on `window` by the extension once `window.ai` is installed,
+// with the `__window_ai_metadata__` as the event detail
+export const WINDOW_AI_READY_EVENT = "window.ai:ready" as const
+
 // Checking against other window.ai implementations
 export function hasWindowAI() {
   return typeof globalThis.window.ai?.generateText === "function"
@@ -9,35 +15,79 @@ export function hasWindowAI() {
   // )
 }
 
+export type WaitOptions = {
+  // Milliseconds to wait before rejecting. Use `Infinity` to wait forever.
+  timeout?: number
+  // Milliseconds between checks, for implementations that don't send the ready event
+  interval?: number
+  // Stops waiting and rejects with the signal's reason
+  signal?: AbortSignal
+}
+
 const DEFAULT_WAIT_OPTIONS = {
-  interval: 100,
+  interval: 500,
   timeout: 2_400 // https://github.com/alexanderatallah/window.ai/pull/34#discussion_r1170545022
 }
 
-export async function waitForWindowAI(opts = DEFAULT_WAIT_OPTIONS) {
+export async function waitForWindowAI(opts: WaitOptions = {}) {
   if (hasWindowAI()) {
     return
   }
+  const { interval, timeout, signal } = { ...DEFAULT_WAIT_OPTIONS, ...opts }
+  if (signal?.aborted) {
+    throw signal.reason
+  }
 
-  await new Promise((resolve, reject) => {
-    let counter = 0
-    const timerInterval = setInterval(() => {
-      counter += opts.interval
-      if (counter > opts.timeout) {
-        clearInterval(timerInterval)
-        reject(new Error("window.ai not found"))
-      }
-
+  await new Promise<void>((resolve, reject) => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    const onReady = () => {
       if (hasWindowAI()) {
-        clearInterval(timerInterval)
-        resolve(true)
+        cleanup()
+        resolve()
       }
-    }, opts.interval)
+    }
+    const onAbort = () => {
+      cleanup()
+      reject(signal?.reason)
+    }
+    const cleanup = () => {
+      globalThis.window.removeEventListener(WINDOW_AI_READY_EVENT, onReady)
+      signal?.removeEventListener("abort", onAbort)
+      clearInterval(intervalId)
+      clearTimeout(timeoutId)
+    }
+
+    globalThis.window.addEventListener(WINDOW_AI_READY_EVENT, onReady)
+    signal?.addEventListener("abort", onAbort)
+    // Fallback for other window.ai implementations
+    const intervalId = setInterval(onReady, interval)
+    if (timeout !== Infinity) {
+      timeoutId = setTimeout(() => {
+        cleanup()
+        reject(new Error("window.ai not found"))
+      }, timeout)
+    }
   })
 }
 
-export const getWindowAI = async (opts = DEFAULT_WAIT_OPTIONS) => {
+export type GetWindowAIOptions = WaitOptions & {
+  // Returned instead of rejecting when window.ai isn't found, e.g. one made
+  // with `createWindowAI` for users without the extension
+  fallback?: WindowAI | (() => WindowAI)
+}
+
+export const getWindowAI = async ({
+  fallback,
+  ...opts
+}: GetWindowAIOptions = {}): Promise<WindowAI> => {
   // wait until the window.ai object is available
-  await waitForWindowAI(opts)
+  try {
+    await waitForWindowAI(opts)
+  } catch (error) {
+    if (!fallback || opts.signal?.aborted) {
+      throw error
+    }
+    return typeof fallback === "function" ? fallback() : fallback
+  }
   return globalThis.window.ai
 }
@@ -0,0 +1,330 @@
+import { createEventEmitter } from "./events"
+import {
+  type CompletionOptions,
+  ErrorCode,
+  type EventData,
+  EventType,
+  FinishReason,
+  type InferredOutput,
+  type Input,
+  type MessageOutput,
+  ModelInputType,
+  type ModelInfo,
+  type ParsedToolCall,
+  type TextOutput,
+  type Usage,
+  type WindowAI,
+  WindowAIError,
+  isKnownError,
+  isMessagesInput,
+  mergePartialOutputs
+} from "./index"
+
+// A scripted reply: its text, an error code to reject with, or a function that
+// picks the reply based on the request
+export type MockResponse =
+  | string
+  | ErrorCode
+  | MockReply
+  | ((input: Input, options: CompletionOptions<string>) => MockResponse)
+
+export type MockReply = {
+  text?: string
+  error?: ErrorCode
+  toolCalls?: ParsedToolCall[]
+  finishReason?: FinishReason
+  usage?: Usage
+}
+
+export type MockWindowAIOptions<TModel = string> = {
+  // Replies for completion requests, in order. The last one is repeated once
+  // they run out. Defaults to "Mock response".
+  responses?: MockResponse[]
+  // Milliseconds to wait before replying, and between streamed chunks
+  latency?: number
+  // How replies are split into streamed chunks. Defaults to one word per chunk.
+  chunk?: (text: string) => string[]
+  model?: TModel
+  models?: ModelInfo<TModel>[]
+  // Length of the generated embeddings
+  embeddingSize?: number
+}
+
+export type MockCall = {
+  method: keyof WindowAI
+  input?: unknown
+  options?: unknown
+}
+
+export type MockWindowAI<TModel = string> = WindowAI<TModel> & {
+  // Every call made to the mock, in order
+  calls: MockCall[]
+  // Adds replies to the end of the script
+  respondWith(...responses: MockResponse[]): void
+  // Makes the next request reject with the error, before any scripted reply
+  failNextWith(code: ErrorCode, message?: string): void
+  // Calls the listeners for the event, like the extension would
+  emit<E extends EventType>(event: E, data: EventData<TModel>[E]): void
+  // Clears the calls, script and listeners
+  reset(): void
+}
+
+const DEFAULT_RESPONSE = "Mock response"
+
+// An in-memory WindowAI for tests and demos. No requests leave the page.
+export function createMockWindowAI<TModel = string>(
+  opts: MockWindowAIOptions<TModel> = {}
+): MockWindowAI<TModel> {
+  const { latency = 0, chunk = _splitWords, embeddingSize = 8 } = opts
+  const {
+    methods: eventMethods,
+    emit: emitEvent,
+    clear: clearListeners
+  } = createEventEmitter<TModel>()
+  const calls: MockCall[] = []
+  let responses = [...(opts.responses ?? [])]
+  let lastResponse: MockResponse | undefined
+  let nextError: WindowAIError | undefined
+
+  const throwNextError = () => {
+    if (nextError) {
+      const error = nextError
+      nextError = undefined
+      throw error
+    }
+  }
+
+  const nextResponse = (
+    input: Input,
+    options: CompletionOptions<string>
+  ): MockReply => {
+    throwNextError()
+    let response = responses.shift() ?? lastResponse ?? DEFAULT_RESPONSE
+    lastResponse = response
+    while (typeof response === "function") {
+      response = response(input, options)
+    }
+    if (typeof response === "string") {
+      response = isKnownError(response)
+        ? { error: response }
+        : { text: response }
+    }
+    if (response.error) {
+      throw new WindowAIError({
+        code: response.error,
+        message: response.error
+      })
+    }
+    return response
+  }
+
+  const wait = async (signal?: AbortSignal) => {
+    if (latency) {
+      await new Promise((resolve) => setTimeout(resolve, latency))
+    }
+    if (signal?.aborted) {
+      throw new WindowAIError({
+        code: ErrorCode.Cancelled,
+        message: ErrorCode.Cancelled
+      })
+    }
+  }
+
+  async function* stream<TInput extends Input>(
+    input: TInput,
+    options: CompletionOptions<TModel, TInput>
+  ): AsyncIterable<InferredOutput<TInput>> {
+    await wait(options.signal)
+    const response = nextResponse(input, options as CompletionOptions<string>)
+    const text = response.text ?? ""
+    const numOutputs = options.numOutputs ?? 1
+    for (const part of chunk(text)) {
+      for (let index = 0; index < numOutputs; index++) {
+        yield _toOutput(input, { text: part, index, isPartial: true })
+      }
+      await wait(options.signal)
+    }
+    for (let index = 0; index < numOutputs; index++) {
+      yield _toOutput(input, { ...response, text, index }, options)
+    }
+  }
+
+  const generate = async <TInput extends Input>(
+    input: TInput,
+    options: CompletionOptions<TModel, TInput> = {}
+  ): Promise<InferredOutput<TInput>[]> => {
+    const { onStreamResult, onStreamResults, numOutputs = 1 } = options
+    const outputs: InferredOutput<TInput>[] = []
+    let partials: InferredOutput<TInput>[] = []
+    try {
+      for await (const output of stream(input, options)) {
+        if ((output as TextOutput | MessageOutput).isPartial) {
+          onStreamResult?.(output, null)
+          partials = mergePartialOutputs(input, numOutputs, partials, [output])
+          onStreamResults?.(partials, null)
+        } else {
+          outputs.push(output)
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "error"
+      onStreamResult?.(null, message)
+      onStreamResults?.(null, message)
+      throw error
+    }
+    return outputs
+  }
+
+  const models: ModelInfo<TModel>[] =
+    opts.models ??
+    (opts.model === undefined
+      ? []
+      : [
+          {
+            id: opts.model,
+            provider: "mock",
+            canStream: true,
+            inputTypes: Object.values(ModelInputType),
+            isConfigured: true
+          }
+        ])
+
+  return {
+    __window_ai_metadata__: {
+      domain: "mock",
+      version: "1",
+      name: "Mock"
+    },
+
+    calls,
+
+    generateText(input, options) {
+      calls.push({ method: "generateText", input, options })
+      return generate(input, options)
+    },
+
+    getCompletion(input, options) {
+      calls.push({ method: "getCompletion", input, options })
+      return generate(input, options)
+    },
+
+    streamText(input, options = {}) {
+      calls.push({ method: "streamText", input, options })
+      return stream(input, options)
+    },
+
+    async BETA_generate3DObject(input, options = {}) {
+      calls.push({ method: "BETA_generate3DObject", input, options })
+      await wait(options.signal)
+      throwNextError()
+      return [{ uri: "data:application/octet-stream;base64," }]
+    },
+
+    async generateEmbeddings(input, options = {}) {
+      calls.push({ method: "generateEmbeddings", input, options })
+      await wait(options.signal)
+      throwNextError()
+      const texts = typeof input === "string" ? [input] : input
+      return texts.map((text) => ({
+        embedding: _embed(text, embeddingSize)
+      }))
+    },
+
+    async getCurrentModel() {
+      calls.push({ method: "getCurrentModel" })
+      return opts.model
+    },
+
+    async listModels() {
+      calls.push({ method: "listModels" })
+      return models
+    },
+
+    ...eventMethods,
+
+    async BETA_updateModelProvider(options) {
+      calls.push({ method: "BETA_updateModelProvider", options })
+    },
+
+    respondWith(...more) {
+      responses.push(...more)
+    },
+
+    failNextWith(code, message = code) {
+      nextError = new WindowAIError({ code, message })
+    },
+
+    emit(event, data) {
+      emitEvent(event, data)
+    },
+
+    reset() {
+      calls.length = 0
+      responses = [...(opts.responses ?? [])]
+      lastResponse = undefined
+      nextError = undefined
+      clearListeners()
+    }
+  }
+}
+
+function _toOutput<TInput extends Input>(
+  input: TInput,
+  output: {
+    text: string
+    index: number
+    isPartial?: boolean
+    toolCalls?: ParsedToolCall[]
+    finishReason?: FinishReason
+    usage?: Usage
+  },
+  options: CompletionOptions<unknown, TInput> = {}
+): InferredOutput<TInput> {
+  const { text, index, isPartial } = output
+  if (isPartial) {
+    return (
+      isMessagesInput(input)
+        ? { message: { role: "assistant", content: text }, index, isPartial }
+        : { text, index, isPartial }
+    ) as InferredOutput<TInput>
+  }
+  const details = {
+    parsed: options.responseFormat ? _parseJSON(text) : undefined,
+    index,
+    finishReason:
+      output.finishReason ??
+      (output.toolCalls ? FinishReason.ToolCalls : FinishReason.Stop),
+    usage: output.usage
+  }
+  if (!isMessagesInput(input)) {
+    return { text, ...details } as InferredOutput<TInput>
+  }
+  return {
+    message: { role: "assistant", content: text },
+    toolCalls: output.toolCalls,
+    ...details
+  } as InferredOutput<TInput>
+}
+
+// Keeps the whitespace, so the chunks join back into the text
+function _splitWords(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? []
+}
+
+// The same text always gets the same embedding
+function _embed(text: string, size: number): number[] {
+  const embedding = new Array<number>(size).fill(0)
+  for (let i = 0; i < text.length; i++) {
+    embedding[i % size]! += text.charCodeAt(i)
+  }
+  const norm = Math.hypot(...embedding) || 1
+  return embedding.map((v) => v / norm)
+}
+
+function _parseJSON(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch (_) {
+    return undefined
+  }
+}
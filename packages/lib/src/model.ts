@@ -23,9 +23,15 @@ export enum MediaModelID {
   // OpenAI Models
   Shap_e = "openai/shap-e"
 }
+
+export enum EmbeddingModelID {
+  // OpenAI Models
+  Ada_Embedding_V2 = "openai/text-embedding-ada-002"
+}
 export const ModelID = {
   ...TextModelID,
-  ...MediaModelID
+  ...MediaModelID,
+  ...EmbeddingModelID
 } as const
 export type ModelID = (typeof ModelID)[keyof typeof ModelID]
 
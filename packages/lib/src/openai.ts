@@ -0,0 +1,367 @@
+import type {
+  ChatMessage,
+  CompletionOptions,
+  FinishReason,
+  JSONSchema,
+  MessageOutput,
+  ParsedToolCall,
+  TextOutput,
+  Tool,
+  ToolCall,
+  Usage,
+  WindowAI
+} from "./index"
+
+// A client with the shape of the OpenAI SDK's chat completions and completions
+// APIs, so code written against it can run on window.ai. Only the commonly used
+// options are supported.
+
+type OpenAIResponseFormat =
+  | { type: "text" }
+  | { type: "json_object" }
+  | { type: "json_schema"; json_schema: { name: string; schema?: JSONSchema } }
+
+type OpenAIBaseParams<TModel> = {
+  model?: TModel
+  max_tokens?: number | null
+  temperature?: number | null
+  top_p?: number | null
+  n?: number | null
+  stop?: string | string[] | null
+  frequency_penalty?: number | null
+  presence_penalty?: number | null
+  seed?: number | null
+  logit_bias?: Record<string, number> | null
+  stream?: boolean | null
+}
+
+export type OpenAIChatCompletionParams<TModel = string> =
+  OpenAIBaseParams<TModel> & {
+    messages: ChatMessage[]
+    tools?: Tool[]
+    response_format?: OpenAIResponseFormat
+  }
+
+export type OpenAICompletionParams<TModel = string> =
+  OpenAIBaseParams<TModel> & {
+    prompt: string
+    // Text that comes after the completion, for fill-in-the-middle
+    suffix?: string | null
+  }
+
+export type OpenAIRequestOptions = {
+  signal?: AbortSignal
+}
+
+export type OpenAIUsage = {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+type OpenAIFinishReason = `${FinishReason}` | null
+
+export type OpenAIChatCompletion = {
+  id: string
+  object: "chat.completion"
+  created: number
+  model: string
+  choices: {
+    index: number
+    message: {
+      role: "assistant"
+      content: string | null
+      tool_calls?: ToolCall[]
+    }
+    finish_reason: OpenAIFinishReason
+    logprobs: null
+  }[]
+  usage?: OpenAIUsage
+}
+
+export type OpenAIChatCompletionChunk = {
+  id: string
+  object: "chat.completion.chunk"
+  created: number
+  model: string
+  choices: {
+    index: number
+    delta: {
+      role?: "assistant"
+      content?: string
+      tool_calls?: (ToolCall & { index: number })[]
+    }
+    finish_reason: OpenAIFinishReason
+    logprobs: null
+  }[]
+  usage?: OpenAIUsage
+}
+
+export type OpenAICompletion = {
+  id: string
+  object: "text_completion"
+  created: number
+  model: string
+  choices: {
+    index: number
+    text: string
+    finish_reason: OpenAIFinishReason
+    logprobs: null
+  }[]
+  usage?: OpenAIUsage
+}
+
+export type OpenAICompatibleClient<TModel = string> = {
+  chat: {
+    completions: {
+      create(
+        params: OpenAIChatCompletionParams<TModel> & { stream: true },
+        options?: OpenAIRequestOptions
+      ): Promise<AsyncIterable<OpenAIChatCompletionChunk>>
+      create(
+        params: OpenAIChatCompletionParams<TModel> & { stream?: false | null },
+        options?: OpenAIRequestOptions
+      ): Promise<OpenAIChatCompletion>
+    }
+  }
+  completions: {
+    create(
+      params: OpenAICompletionParams<TModel> & { stream: true },
+      options?: OpenAIRequestOptions
+    ): Promise<AsyncIterable<OpenAICompletion>>
+    create(
+      params: OpenAICompletionParams<TModel> & { stream?: false | null },
+      options?: OpenAIRequestOptions
+    ): Promise<OpenAICompletion>
+  }
+}
+
+export function createOpenAICompatibleClient<TModel = string>(
+  windowAI: WindowAI<TModel>
+): OpenAICompatibleClient<TModel> {
+  const createChatCompletion = async (
+    params: OpenAIChatCompletionParams<TModel>,
+    options: OpenAIRequestOptions = {}
+  ) => {
+    const { messages, tools, response_format } = params
+    const input = { messages }
+    const completionOptions = {
+      ..._toCompletionOptions(params, options),
+      ..._defined({ tools, responseFormat: _toResponseFormat(response_format) })
+    }
+    const meta = await _getMeta(windowAI, params, "chatcmpl")
+    if (params.stream) {
+      return _streamChat(windowAI.streamText(input, completionOptions), meta)
+    }
+    const outputs = await windowAI.generateText(input, completionOptions)
+    const completion: OpenAIChatCompletion = {
+      ...meta,
+      object: "chat.completion",
+      choices: outputs.map((output, i) => ({
+        index: output.index ?? i,
+        message: {
+          role: "assistant",
+          content: output.message.content,
+          ..._defined({ tool_calls: _toToolCalls(output.toolCalls) })
+        },
+        finish_reason: output.finishReason ?? "stop",
+        logprobs: null
+      })),
+      ..._defined({ usage: _toUsage(outputs) })
+    }
+    return completion
+  }
+
+  const createCompletion = async (
+    params: OpenAICompletionParams<TModel>,
+    options: OpenAIRequestOptions = {}
+  ) => {
+    const { prompt, suffix } = params
+    const input = suffix ? { prompt, suffix } : { prompt }
+    const completionOptions = _toCompletionOptions(params, options)
+    const meta = await _getMeta(windowAI, params, "cmpl")
+    if (params.stream) {
+      return _streamText(
+        windowAI.streamText(
+          input,
+          completionOptions
+        ) as AsyncIterable<TextOutput>,
+        meta
+      )
+    }
+    const outputs = (await windowAI.generateText(
+      input,
+      completionOptions
+    )) as TextOutput[]
+    const completion: OpenAICompletion = {
+      ...meta,
+      object: "text_completion",
+      choices: outputs.map((output, i) => ({
+        index: output.index ?? i,
+        text: output.text,
+        finish_reason: output.finishReason ?? "stop",
+        logprobs: null
+      })),
+      ..._defined({ usage: _toUsage(outputs) })
+    }
+    return completion
+  }
+
+  return {
+    chat: {
+      completions: {
+        create:
+          createChatCompletion as OpenAICompatibleClient<TModel>["chat"]["completions"]["create"]
+      }
+    },
+    completions: {
+      create:
+        createCompletion as OpenAICompatibleClient<TModel>["completions"]["create"]
+    }
+  }
+}
+
+type Meta = { id: string; created: number; model: string }
+
+async function _getMeta<TModel>(
+  windowAI: WindowAI<TModel>,
+  params: OpenAIBaseParams<TModel>,
+  idPrefix: string
+): Promise<Meta> {
+  const model = params.model ?? (await windowAI.getCurrentModel())
+  return {
+    id: `${idPrefix}-${Math.random().toString(36).slice(2)}`,
+    created: Math.floor(Date.now() / 1000),
+    model: model ? String(model) : "unknown"
+  }
+}
+
+function _toCompletionOptions<TModel>(
+  params: OpenAIBaseParams<TModel>,
+  { signal }: OpenAIRequestOptions
+): CompletionOptions<TModel> {
+  const { stop } = params
+  return _defined({
+    model: params.model,
+    numOutputs: params.n ?? undefined,
+    maxTokens: params.max_tokens ?? undefined,
+    temperature: params.temperature ?? undefined,
+    topP: params.top_p ?? undefined,
+    stopSequences: typeof stop === "string" ? [stop] : stop ?? undefined,
+    frequencyPenalty: params.frequency_penalty ?? undefined,
+    presencePenalty: params.presence_penalty ?? undefined,
+    seed: params.seed ?? undefined,
+    logitBias: params.logit_bias ?? undefined,
+    signal
+  })
+}
+
+function _toResponseFormat(
+  format?: OpenAIResponseFormat
+): CompletionOptions<string>["responseFormat"] {
+  switch (format?.type) {
+    case "json_object":
+      return { type: "json" }
+    case "json_schema":
+      return { type: "json", schema: format.json_schema.schema }
+    default:
+      return undefined
+  }
+}
+
+function _toToolCalls(toolCalls?: ParsedToolCall[]): ToolCall[] | undefined {
+  return toolCalls?.map(({ id, name, arguments: args }) => ({
+    id,
+    type: "function",
+    function: {
+      name,
+      arguments: typeof args === "string" ? args : JSON.stringify(args)
+    }
+  }))
+}
+
+// Usage is reported for the whole request, so it's the same on every output
+function _toUsage(outputs: { usage?: Usage }[]): OpenAIUsage | undefined {
+  const usage = outputs.find((o) => o.usage)?.usage
+  if (!usage) {
+    return undefined
+  }
+  return {
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.promptTokens + usage.completionTokens
+  }
+}
+
+// Partial outputs are deltas, and the final output of each choice repeats the
+// whole text. The final output only adds content for models that can't stream.
+async function* _streamChat(
+  outputs: AsyncIterable<MessageOutput>,
+  meta: Meta
+): AsyncIterable<OpenAIChatCompletionChunk> {
+  const started = new Set<number>()
+  for await (const output of outputs) {
+    const index = output.index ?? 0
+    const isFirst = !started.has(index)
+    started.add(index)
+    const content =
+      output.isPartial || isFirst ? output.message.content : undefined
+    const toolCalls = _toToolCalls(output.toolCalls)?.map((call, i) => ({
+      ...call,
+      index: i
+    }))
+    yield {
+      ...meta,
+      object: "chat.completion.chunk",
+      choices: [
+        {
+          index,
+          delta: _defined({
+            role: isFirst ? ("assistant" as const) : undefined,
+            content,
+            tool_calls: toolCalls
+          }),
+          finish_reason: output.isPartial
+            ? null
+            : output.finishReason ?? "stop",
+          logprobs: null
+        }
+      ],
+      ..._defined({ usage: _toUsage([output]) })
+    }
+  }
+}
+
+async function* _streamText(
+  outputs: AsyncIterable<TextOutput>,
+  meta: Meta
+): AsyncIterable<OpenAICompletion> {
+  const started = new Set<number>()
+  for await (const output of outputs) {
+    const index = output.index ?? 0
+    const isFirst = !started.has(index)
+    started.add(index)
+    yield {
+      ...meta,
+      object: "text_completion",
+      choices: [
+        {
+          index,
+          text: output.isPartial || isFirst ? output.text : "",
+          finish_reason: output.isPartial
+            ? null
+            : output.finishReason ?? "stop",
+          logprobs: null
+        }
+      ],
+      ..._defined({ usage: _toUsage([output]) })
+    }
+  }
+}
+
+// Drops undefined values, so only the options that were set are sent
+function _defined<T extends Record<string, unknown>>(obj: T): T {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([_, v]) => v !== undefined)
+  ) as T
+}
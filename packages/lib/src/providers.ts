@@ -0,0 +1,72 @@
+import type { WindowAI, WindowAIMetadata } from "./index"
+
+// Discovery lets several window.ai implementations coexist on a page.
+// Apps dispatch the request event, and every implementation answers with
+// the announce event (and also announces once when it installs).
+export const WINDOW_AI_ANNOUNCE_EVENT = "window.ai:announceProvider" as const
+export const WINDOW_AI_REQUEST_EVENT = "window.ai:requestProvider" as const
+
+export type WindowAIProviderDetail<TModel = string> = {
+  info: WindowAIMetadata
+  provider: WindowAI<TModel>
+}
+
+// For implementations: announces the provider now and whenever an app asks.
+// Returns a function that stops answering requests.
+export function announceWindowAIProvider<TModel = string>(
+  provider: WindowAI<TModel>
+): () => void {
+  const announce = () => {
+    const detail: WindowAIProviderDetail<TModel> = Object.freeze({
+      info: provider.__window_ai_metadata__,
+      provider
+    })
+    globalThis.window.dispatchEvent(
+      new CustomEvent(WINDOW_AI_ANNOUNCE_EVENT, { detail })
+    )
+  }
+  globalThis.window.addEventListener(WINDOW_AI_REQUEST_EVENT, announce)
+  announce()
+  return () =>
+    globalThis.window.removeEventListener(WINDOW_AI_REQUEST_EVENT, announce)
+}
+
+// Calls the handler for each provider on the page, including ones that
+// install later. Returns a function that stops listening.
+export function onWindowAIProvider<TModel = string>(
+  handler: (detail: WindowAIProviderDetail<TModel>) => void
+): () => void {
+  const seen = new Set<WindowAI<TModel>>()
+  const onAnnounce = (event: Event) => {
+    const detail = (event as CustomEvent<WindowAIProviderDetail<TModel>>).detail
+    if (!detail?.provider || seen.has(detail.provider)) {
+      return
+    }
+    seen.add(detail.provider)
+    handler(detail)
+  }
+  globalThis.window.addEventListener(WINDOW_AI_ANNOUNCE_EVENT, onAnnounce)
+  globalThis.window.dispatchEvent(new Event(WINDOW_AI_REQUEST_EVENT))
+  return () =>
+    globalThis.window.removeEventListener(WINDOW_AI_ANNOUNCE_EVENT, onAnnounce)
+}
+
+// Lists the providers currently on the page. Implementations answer
+// requests synchronously, so no waiting is needed. A `window.ai` that
+// doesn't support discovery is included as well.
+export function getWindowAIProviders<
+  TModel = string
+>(): WindowAIProviderDetail<TModel>[] {
+  const providers: WindowAIProviderDetail<TModel>[] = []
+  const stop = onWindowAIProvider<TModel>((detail) => providers.push(detail))
+  stop()
+
+  const legacy = globalThis.window.ai as WindowAI<TModel> | undefined
+  if (
+    typeof legacy?.generateText === "function" &&
+    !providers.some((p) => p.provider === legacy)
+  ) {
+    providers.push({ info: legacy.__window_ai_metadata__, provider: legacy })
+  }
+  return providers
+}
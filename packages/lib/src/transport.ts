@@ -0,0 +1,127 @@
+import { parseHTTPError } from "./errors"
+import { ErrorCode, WindowAIError, isWindowAIError } from "./index"
+
+// Sends requests for `createWindowAI`. Paths and bodies follow the OpenAI API,
+// e.g. "/chat/completions", so any OpenAI-compatible server can be used.
+// Failed requests should reject with a WindowAIError.
+export type Transport = {
+  request(path: string, body: unknown, signal?: AbortSignal): Promise<unknown>
+  // Yields the data of each server-sent event, until the stream is done
+  stream(
+    path: string,
+    body: unknown,
+    signal?: AbortSignal
+  ): AsyncIterable<unknown>
+}
+
+export type HTTPTransportOptions = {
+  // Where the API is hosted, e.g. "https://example.com/api/v1"
+  baseUrl: string
+  // Sent with every request, e.g. for a session token. Never put API keys
+  // in client-side code: point this at a proxy you host instead.
+  headers?: Record<string, string>
+  fetch?: typeof globalThis.fetch
+}
+
+export function createHTTPTransport({
+  baseUrl,
+  headers = {},
+  fetch = globalThis.fetch.bind(globalThis)
+}: HTTPTransportOptions): Transport {
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, "")}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(body),
+        signal
+      })
+    } catch (error) {
+      throw _toFetchError(error, signal)
+    }
+    if (!response.ok) {
+      throw await _toError(response)
+    }
+    return response
+  }
+
+  return {
+    async request(path, body, signal) {
+      const response = await post(path, body, signal)
+      try {
+        return await response.json()
+      } catch (error) {
+        throw _toFetchError(error, signal)
+      }
+    },
+
+    async *stream(path, body, signal) {
+      const response = await post(path, body, signal)
+      if (!response.body) {
+        return
+      }
+      const reader = response.body
+        .pipeThrough(new TextDecoderStream())
+        .getReader()
+      let buffer = ""
+      try {
+        while (true) {
+          const { done, value } = await reader.read()
+          if (done) {
+            return
+          }
+          buffer += value
+          const lines = buffer.split("\n")
+          buffer = lines.pop() ?? ""
+          for (const line of lines) {
+            if (!line.startsWith("data:")) {
+              continue
+            }
+            const data = line.slice("data:".length).trim()
+            if (data === "[DONE]") {
+              return
+            }
+            yield JSON.parse(data)
+          }
+        }
+      } catch (error) {
+        // The connection can drop, or be cancelled, mid-stream
+        throw isWindowAIError(error) ? error : _toFetchError(error, signal)
+      } finally {
+        reader.releaseLock()
+      }
+    }
+  }
+}
+
+// The request was cancelled, or failed before the server could reply, e.g. if
+// the network is down
+function _toFetchError(error: unknown, signal?: AbortSignal): WindowAIError {
+  if (
+    signal?.aborted ||
+    (error instanceof Error && error.name === "AbortError")
+  ) {
+    return new WindowAIError({
+      code: ErrorCode.Cancelled,
+      message: ErrorCode.Cancelled
+    })
+  }
+  return new WindowAIError({
+    code: ErrorCode.Unknown,
+    message: error instanceof Error ? error.message : String(error)
+  })
+}
+
+// Same mapping as the extension uses for model provider errors
+async function _toError(response: Response): Promise<WindowAIError> {
+  const data = await response.json().catch(() => undefined)
+  return new WindowAIError(
+    parseHTTPError(
+      response.status,
+      data,
+      response.headers.get("retry-after"),
+      response.statusText
+    )
+  )
+}